@@ -0,0 +1,308 @@
+/**
+ * Registration of the white and black passes before difference matting
+ *
+ * The "change the background to black" edit often shifts, rescales or
+ * slightly redraws the subject, which the matte turns into ghosted halos.
+ * Subject edges survive a background swap, so both passes are reduced to
+ * edge maps and the translation + scale that best overlays them is found
+ * with a coarse-to-fine search seeded from the edge maps' moments. The
+ * black pass is then resampled into the white pass's frame.
+ */
+
+import sharp from 'sharp';
+
+export interface Alignment {
+  offsetX: number;     // Subject shift of the black pass relative to the white pass, in pixels
+  offsetY: number;
+  scale: number;       // Subject size in the black pass relative to the white pass (after any whole-frame resize)
+  correlation: number; // Edge similarity after alignment, 0-1 (low values suggest a redrawn subject)
+  applied: boolean;    // Whether the black pass was resampled
+}
+
+/**
+ * Maps a white-pass pixel to the black pass: both frames are centered,
+ * scaled, then offset (in black-pass pixels)
+ */
+interface Transform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+interface EdgeMap {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+const COARSE_SIZE = 256;
+const FINE_SIZE = 1024;
+const COARSE_RADIUS = 3;
+const COARSE_SCALE_STEP = 0.01;
+const FINE_SCALE_STEP = 0.0025;
+const EDGE_THRESHOLD = 16;     // Sobel magnitude below which a pixel is flat
+const MAX_SAMPLE_POINTS = 20000;
+// Correlation gain needed before resampling (resampling softens the image slightly)
+const MIN_IMPROVEMENT = 0.01;
+
+async function loadEdgeMap(path: string | Buffer, width: number, height: number): Promise<EdgeMap> {
+  const gray = await sharp(path)
+    .resize(width, height, { fit: 'fill' })
+    .removeAlpha()
+    .greyscale()
+    .raw()
+    .toBuffer();
+
+  const data = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx =
+        gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1];
+      const gy =
+        gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1];
+      const magnitude = Math.sqrt(gx * gx + gy * gy) / 4;
+      data[i] = magnitude < EDGE_THRESHOLD ? 0 : magnitude;
+    }
+  }
+  return { data, width, height };
+}
+
+function sampleEdge(map: EdgeMap, x: number, y: number): number {
+  if (x < 0 || y < 0 || x > map.width - 1 || y > map.height - 1) {
+    return 0;
+  }
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, map.width - 1);
+  const y1 = Math.min(y0 + 1, map.height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const top = map.data[y0 * map.width + x0] * (1 - fx) + map.data[y0 * map.width + x1] * fx;
+  const bottom = map.data[y1 * map.width + x0] * (1 - fx) + map.data[y1 * map.width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+/**
+ * Edge-weighted centroid and radial spread
+ */
+function moments(map: EdgeMap): { x: number; y: number; spread: number; energy: number } {
+  let sum = 0, sx = 0, sy = 0, energy = 0;
+  for (let i = 0; i < map.data.length; i++) {
+    const e = map.data[i];
+    if (e === 0) continue;
+    sum += e;
+    sx += e * (i % map.width);
+    sy += e * Math.floor(i / map.width);
+    energy += e * e;
+  }
+  if (sum === 0) {
+    return { x: 0, y: 0, spread: 0, energy: 0 };
+  }
+  const x = sx / sum;
+  const y = sy / sum;
+  let sr = 0;
+  for (let i = 0; i < map.data.length; i++) {
+    const e = map.data[i];
+    if (e === 0) continue;
+    const dx = (i % map.width) - x;
+    const dy = Math.floor(i / map.width) - y;
+    sr += e * (dx * dx + dy * dy);
+  }
+  return { x, y, spread: Math.sqrt(sr / sum), energy };
+}
+
+/**
+ * Edge pixels of the white pass, thinned to keep scoring cheap
+ */
+function samplePoints(map: EdgeMap): number[] {
+  const points: number[] = [];
+  for (let i = 0; i < map.data.length; i++) {
+    if (map.data[i] > 0) points.push(i);
+  }
+  const stride = Math.ceil(points.length / MAX_SAMPLE_POINTS);
+  return stride > 1 ? points.filter((_, index) => index % stride === 0) : points;
+}
+
+/**
+ * Cosine similarity between the white edge map and the transformed black
+ * edge map. The black map's energy is taken over the whole image (scaled by
+ * the area change), which only differs where content leaves the frame.
+ */
+function score(white: EdgeMap, black: EdgeMap, points: number[], whiteEnergy: number, blackEnergy: number, t: Transform): number {
+  const wcx = (white.width - 1) / 2;
+  const wcy = (white.height - 1) / 2;
+  const bcx = (black.width - 1) / 2;
+  const bcy = (black.height - 1) / 2;
+
+  let dot = 0;
+  for (const i of points) {
+    const x = i % white.width;
+    const y = (i - x) / white.width;
+    const e = sampleEdge(black, bcx + t.scale * (x - wcx) + t.offsetX, bcy + t.scale * (y - wcy) + t.offsetY);
+    dot += white.data[i] * e;
+  }
+  const norm = Math.sqrt(whiteEnergy * (blackEnergy / (t.scale * t.scale)));
+  return norm > 0 ? Math.min(1, dot / norm) : 0;
+}
+
+function search(
+  white: EdgeMap,
+  black: EdgeMap,
+  center: Transform,
+  scaleStep: number,
+  scaleSteps: number,
+  radius: number
+): { transform: Transform; correlation: number } {
+  const points = samplePoints(white);
+  const edgeCount = white.data.reduce((count, e) => (e > 0 ? count + 1 : count), 0);
+  // Energies matching the thinned sample, so thinning doesn't skew the score
+  const whiteEnergy = points.reduce((sum, i) => sum + white.data[i] * white.data[i], 0);
+  const blackEnergy = black.data.reduce((sum, e) => sum + e * e, 0) * (points.length / Math.max(1, edgeCount));
+
+  let best = { transform: center, correlation: -1 };
+  for (let k = -scaleSteps; k <= scaleSteps; k++) {
+    const scale = center.scale * (1 + k * scaleStep);
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        const transform = { scale, offsetX: center.offsetX + dx, offsetY: center.offsetY + dy };
+        const correlation = score(white, black, points, whiteEnergy, blackEnergy, transform);
+        if (correlation > best.correlation) {
+          best = { transform, correlation };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Resample the black pass into the white pass's frame (bilinear, with
+ * black filling anything that falls outside the source)
+ */
+async function warp(blackPath: string | Buffer, width: number, height: number, t: Transform): Promise<Buffer> {
+  const { data: src, info } = await sharp(blackPath)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const output = Buffer.alloc(width * height * 4);
+  const wcx = (width - 1) / 2;
+  const wcy = (height - 1) / 2;
+  const bcx = (info.width - 1) / 2;
+  const bcy = (info.height - 1) / 2;
+  const pixel = (x: number, y: number, c: number) =>
+    x < 0 || y < 0 || x >= info.width || y >= info.height
+      ? (c === 3 ? 255 : 0)
+      : src[(y * info.width + x) * 4 + c];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sx = bcx + t.scale * (x - wcx) + t.offsetX;
+      const sy = bcy + t.scale * (y - wcy) + t.offsetY;
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const offset = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = pixel(x0, y0, c) * (1 - fx) + pixel(x0 + 1, y0, c) * fx;
+        const bottom = pixel(x0, y0 + 1, c) * (1 - fx) + pixel(x0 + 1, y0 + 1, c) * fx;
+        output[offset + c] = Math.round(top * (1 - fy) + bottom * fy);
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Estimate how the black pass is displaced relative to the white pass and
+ * return it as raw RGBA in the white pass's frame
+ */
+export async function registerPasses(
+  whitePath: string | Buffer, // Path or encoded bytes
+  blackPath: string | Buffer
+): Promise<{ black: Buffer; alignment: Alignment }> {
+  const whiteMeta = await sharp(whitePath).metadata();
+  const blackMeta = await sharp(blackPath).metadata();
+  const width = whiteMeta.width || 0;
+  const height = whiteMeta.height || 0;
+  const blackWidth = blackMeta.width || 0;
+  const blackHeight = blackMeta.height || 0;
+
+  // Treat a uniformly rescaled frame as aligned
+  const frame: Transform = { scale: blackWidth / width, offsetX: 0, offsetY: 0 };
+  const sameSize = width === blackWidth && height === blackHeight;
+
+  const levelSize = (size: number, factor: number) => Math.max(3, Math.round(size * factor));
+  const loadLevel = async (maxSize: number) => {
+    const factor = Math.min(1, maxSize / Math.max(width, height));
+    return {
+      factor,
+      white: await loadEdgeMap(whitePath, levelSize(width, factor), levelSize(height, factor)),
+      black: await loadEdgeMap(blackPath, levelSize(blackWidth, factor), levelSize(blackHeight, factor)),
+    };
+  };
+
+  // Coarse: seed from moments, both with the measured scale and the frame scale
+  const coarse = await loadLevel(COARSE_SIZE);
+  const mw = moments(coarse.white);
+  const mb = moments(coarse.black);
+
+  let chosen = frame;
+  let correlation = 0;
+
+  if (mw.energy > 0 && mb.energy > 0) {
+    const seedOffset = (scale: number): Transform => ({
+      scale,
+      offsetX: Math.round(mb.x - ((coarse.black.width - 1) / 2 + scale * (mw.x - (coarse.white.width - 1) / 2))),
+      offsetY: Math.round(mb.y - ((coarse.black.height - 1) / 2 + scale * (mw.y - (coarse.white.height - 1) / 2))),
+    });
+    // The spread ratio only makes a scale when both passes have some extent
+    const spreadSeeds = mw.spread > 0 && mb.spread > 0 ? [seedOffset(mb.spread / mw.spread)] : [];
+    const seeds = [...spreadSeeds, seedOffset(frame.scale), frame];
+    const coarseBest = seeds
+      .map((seed) => search(coarse.white, coarse.black, seed, COARSE_SCALE_STEP, COARSE_RADIUS, COARSE_RADIUS))
+      .reduce((a, b) => (b.correlation > a.correlation ? b : a));
+
+    // Fine: refine around the coarse estimate at up to FINE_SIZE resolution
+    const fine = await loadLevel(FINE_SIZE);
+    const ratio = fine.factor / coarse.factor;
+    const center: Transform = {
+      scale: coarseBest.transform.scale,
+      offsetX: Math.round(coarseBest.transform.offsetX * ratio),
+      offsetY: Math.round(coarseBest.transform.offsetY * ratio),
+    };
+    const fineBest = search(fine.white, fine.black, center, FINE_SCALE_STEP, 2, Math.ceil(ratio) + 1);
+    const frameScore = search(fine.white, fine.black, frame, 0, 0, 0).correlation;
+
+    if (fineBest.correlation - frameScore >= MIN_IMPROVEMENT) {
+      chosen = {
+        scale: fineBest.transform.scale,
+        offsetX: fineBest.transform.offsetX / fine.factor,
+        offsetY: fineBest.transform.offsetY / fine.factor,
+      };
+      correlation = fineBest.correlation;
+    } else {
+      correlation = frameScore;
+    }
+  }
+
+  const applied = chosen !== frame || !sameSize;
+  const black = applied
+    ? await warp(blackPath, width, height, chosen)
+    : await sharp(blackPath).ensureAlpha().raw().toBuffer();
+
+  return {
+    black,
+    alignment: {
+      offsetX: Math.round(chosen.offsetX * 10) / 10,
+      offsetY: Math.round(chosen.offsetY * 10) / 10,
+      scale: Math.round((chosen.scale * width / Math.max(1, blackWidth)) * 10000) / 10000,
+      correlation: Math.round(correlation * 1000) / 1000,
+      applied,
+    },
+  };
+}
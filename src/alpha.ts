@@ -3,22 +3,32 @@
  */
 
 import sharp from 'sharp';
-import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
 import { join, resolve, basename } from 'path';
-import { generateImage, editImage, Model, ImageConfig } from './gemini.js';
+import { Model, ImageConfig } from './gemini.js';
+import { ImageProvider, getProvider, assertCapabilities } from './provider.js';
+import { RetryOptions } from './retry.js';
+import { CacheOptions, CacheResult, cachedGenerate, cachedEdit, isCacheEnabled } from './cache.js';
+import { Alignment, registerPasses } from './align.js';
+import { MatteOptions, hasMatteOptions, refineMatte } from './matte.js';
+import { EncodeOptions, EncodedImage, OutputFormat, detectFormat, encodeImage, formatSupportsAlpha, withExtension } from './format.js';
 import {
   appendWhiteBackground,
+  appendStyle,
   EDIT_TO_BLACK_PROMPT,
   REMOVE_BG_TO_WHITE_PROMPT,
   REMOVE_BG_TO_BLACK_PROMPT,
 } from './prompts.js';
-import { ImageType, ensureDir, wrapPromptForType } from './utils.js';
+import { ProgressListener, StepTracker } from './progress.js';
+import { ImageType, ensureDir, wrapPromptForType, parseColor, uniqueTimestamp } from './utils.js';
 
 export type TransparentMethod = 'pro-pro' | 'pro-flash' | 'flash-flash' | 'local';
 
+export const TRANSPARENT_METHODS: TransparentMethod[] = ['pro-pro', 'pro-flash', 'flash-flash', 'local'];
+
 export { ImageType };
 
-function getModelsForMethod(method: TransparentMethod): { generate: Model; edit: Model } {
+export function getModelsForMethod(method: TransparentMethod): { generate: Model; edit: Model } {
   switch (method) {
     case 'pro-pro':
       return { generate: 'nano-banana-pro', edit: 'nano-banana-pro' };
@@ -34,18 +44,120 @@ function getModelsForMethod(method: TransparentMethod): { generate: Model; edit:
 
 export type BackgroundColor = 'white' | 'black' | 'auto' | string; // string for hex like '#00ff00'
 
-function parseColor(color: string): { r: number; g: number; b: number } {
-  if (color === 'white') return { r: 255, g: 255, b: 255 };
-  if (color === 'black') return { r: 0, g: 0, b: 0 };
-  // Parse hex color
-  const hex = color.replace('#', '');
-  if (!/^[0-9a-fA-F]{6}$/.test(hex)) {
-    throw new Error(`Invalid hex color: ${color}. Use format #RRGGBB or RRGGBB`);
+/**
+ * How local removal decides which background-colored pixels to remove:
+ * 'global' removes them anywhere, 'flood' only where connected to the seeds
+ */
+export type LocalMode = 'global' | 'flood';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Called as soon as an API pass arrives, before the next step starts.
+ * Returns where the pass was written, if anywhere.
+ */
+export type IntermediateWriter = (pass: 'white' | 'black', buffer: Buffer) => Promise<string | undefined>;
+
+/**
+ * Output format for an image with an alpha channel (PNG unless overridden)
+ */
+function transparentFormat(encoding?: EncodeOptions): OutputFormat {
+  const format = encoding?.format || 'png';
+  if (!formatSupportsAlpha(format)) {
+    throw new Error(`Format ${format} can't carry transparency. Use png, webp or avif.`);
   }
-  const r = parseInt(hex.slice(0, 2), 16);
-  const g = parseInt(hex.slice(2, 4), 16);
-  const b = parseInt(hex.slice(4, 6), 16);
-  return { r, g, b };
+  return format;
+}
+
+/**
+ * Write an API response next to the output, named for its actual format
+ */
+async function writeIntermediate(outputDir: string, name: string, buffer: Buffer): Promise<string> {
+  const path = resolve(join(outputDir, withExtension(name, (await detectFormat(buffer)) || 'png')));
+  writeFileSync(path, buffer);
+  return path;
+}
+
+// Steps into the anti-aliased fade zone that flood mode keeps partial alpha for
+const FLOOD_FADE_DEPTH = 2;
+
+/**
+ * Restrict a color-based alpha map to regions connected to the seed pixels.
+ * Fully transparent pixels spread the region (4-connected, so it can't leak
+ * through diagonal gaps in an outline); partially transparent pixels near
+ * the region keep their anti-aliased alpha; everything else becomes opaque.
+ */
+function floodAlpha(alphas: Uint8Array, width: number, height: number, seeds: number[]): Uint8Array {
+  const result = new Uint8Array(alphas.length).fill(255);
+  const visited = new Uint8Array(alphas.length);
+  let frontier: number[] = [];
+
+  const neighbors = (i: number): number[] => {
+    const x = i % width;
+    const list: number[] = [];
+    if (x > 0) list.push(i - 1);
+    if (x < width - 1) list.push(i + 1);
+    if (i >= width) list.push(i - width);
+    if (i < alphas.length - width) list.push(i + width);
+    return list;
+  };
+
+  const stack = seeds.filter((i) => alphas[i] === 0);
+  for (const i of stack) visited[i] = 1;
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    result[i] = 0;
+    for (const n of neighbors(i)) {
+      if (visited[n]) continue;
+      if (alphas[n] === 0) {
+        visited[n] = 1;
+        stack.push(n);
+      } else if (alphas[n] < 255) {
+        visited[n] = 1;
+        frontier.push(n);
+      }
+    }
+  }
+
+  for (let depth = 0; depth < FLOOD_FADE_DEPTH && frontier.length > 0; depth++) {
+    const next: number[] = [];
+    for (const i of frontier) {
+      result[i] = alphas[i];
+      for (const n of neighbors(i)) {
+        if (!visited[n] && alphas[n] > 0 && alphas[n] < 255) {
+          visited[n] = 1;
+          next.push(n);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return result;
+}
+
+function borderPixels(width: number, height: number): number[] {
+  const pixels: number[] = [];
+  for (let x = 0; x < width; x++) {
+    pixels.push(x, (height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    pixels.push(y * width, y * width + width - 1);
+  }
+  return pixels;
+}
+
+export interface LocalRemovalOptions {
+  bgColor?: BackgroundColor;
+  tolerance?: number; // 0-255, default 30
+  mode?: LocalMode;   // default 'global'
+  seeds?: Point[];    // Flood start points (default: every border pixel)
+  matte?: MatteOptions;
+  encoding?: EncodeOptions;
+  onProgress?: ProgressListener;
 }
 
 /**
@@ -55,47 +167,71 @@ function parseColor(color: string): { r: number; g: number; b: number } {
 export async function removeBackgroundLocal(
   inputPath: string,
   outputPath: string,
-  options: {
-    bgColor?: BackgroundColor;
-    tolerance?: number; // 0-255, default 30
-  } = {}
-): Promise<void> {
+  options: LocalRemovalOptions = {}
+): Promise<{ overSizeLimit?: boolean }> {
+  const encoded = await removeBackgroundLocalBuffer(inputPath, options);
+  writeFileSync(outputPath, encoded.buffer);
+  return { overSizeLimit: encoded.overLimit };
+}
+
+/**
+ * Local background removal, returning the encoded result. `input` is a
+ * path or encoded bytes.
+ */
+export function removeBackgroundLocalBuffer(
+  input: string | Buffer,
+  options: LocalRemovalOptions = {}
+): Promise<EncodedImage> {
+  return new StepTracker(options.onProgress, 1).run('local-removal', () => removeColorBackground(input, options));
+}
+
+async function removeColorBackground(input: string | Buffer, options: LocalRemovalOptions): Promise<EncodedImage> {
   const tolerance = options.tolerance ?? 30;
   const toleranceSquared = tolerance * tolerance;
   const doubleToleranceSquared = (tolerance * 2) * (tolerance * 2);
 
-  const { data, info } = await sharp(inputPath)
+  const { data, info } = await sharp(input)
     .ensureAlpha()
     .raw()
     .toBuffer({ resolveWithObject: true });
 
-  // Auto-detect background color from corners if not specified
+  const seeds = (options.seeds || []).map((seed) => {
+    if (seed.x < 0 || seed.y < 0 || seed.x >= info.width || seed.y >= info.height) {
+      throw new Error(`Seed point ${seed.x},${seed.y} is outside the ${info.width}x${info.height} image`);
+    }
+    return seed.y * info.width + seed.x;
+  });
+
+  // Auto-detect background color from the seeds, or corners if there are none
   let bgColor: { r: number; g: number; b: number };
   if (!options.bgColor || options.bgColor === 'auto') {
-    // Sample corners to detect background
-    const corners = [
+    const samples = seeds.length > 0 ? seeds.map((i) => i * 4) : [
       0, // top-left
       (info.width - 1) * 4, // top-right
       (info.height - 1) * info.width * 4, // bottom-left
       ((info.height - 1) * info.width + (info.width - 1)) * 4, // bottom-right
     ];
     let rSum = 0, gSum = 0, bSum = 0;
-    for (const offset of corners) {
+    for (const offset of samples) {
       rSum += data[offset];
       gSum += data[offset + 1];
       bSum += data[offset + 2];
     }
     bgColor = {
-      r: Math.round(rSum / 4),
-      g: Math.round(gSum / 4),
-      b: Math.round(bSum / 4),
+      r: Math.round(rSum / samples.length),
+      g: Math.round(gSum / samples.length),
+      b: Math.round(bSum / samples.length),
     };
   } else {
     bgColor = parseColor(options.bgColor);
   }
 
-  // Mutate buffer in-place since we own it
+  // Keep the original colors for matte refinement
+  const original = hasMatteOptions(options.matte) ? Buffer.from(data) : undefined;
+
+  // Color-based alpha for every pixel
   const pixelCount = info.width * info.height;
+  let alphas: Uint8Array = new Uint8Array(pixelCount);
   for (let i = 0; i < pixelCount; i++) {
     const offset = i * 4;
     const r = data[offset];
@@ -121,42 +257,66 @@ export async function removeBackgroundLocal(
       alpha = 1; // Fully opaque
     }
 
-    // RGB stays the same, just update alpha
-    data[offset + 3] = Math.round(alpha * 255);
+    alphas[i] = Math.round(alpha * 255);
   }
 
-  await sharp(data, {
+  if (options.mode === 'flood') {
+    const starts = seeds.length > 0 ? seeds : borderPixels(info.width, info.height);
+    alphas = floodAlpha(alphas, info.width, info.height, starts);
+  }
+
+  // RGB stays the same, just update alpha (mutate buffer in-place since we own it)
+  for (let i = 0; i < pixelCount; i++) {
+    data[i * 4 + 3] = alphas[i];
+  }
+
+  if (original && options.matte) {
+    refineMatte(data, info.width, info.height, options.matte, [{ data: original, background: bgColor }]);
+  }
+
+  return encodeImage(sharp(data, {
     raw: { width: info.width, height: info.height, channels: 4 },
-  })
-    .png()
-    .toFile(outputPath);
+  }), { ...options.encoding, format: transparentFormat(options.encoding) });
 }
 
 /**
  * Core difference matting algorithm
- * Compares same image on white vs black background to extract alpha channel
+ * Compares same image on white vs black background to extract alpha channel.
+ * The black pass is registered to the white pass first, so a shifted or
+ * rescaled subject (or a differently sized output) doesn't leave halos.
  */
 export async function extractAlphaTwoPass(
   imgOnWhitePath: string,
   imgOnBlackPath: string,
-  outputPath: string
-): Promise<void> {
-  const img1 = sharp(imgOnWhitePath);
-  const img2 = sharp(imgOnBlackPath);
+  outputPath: string,
+  options: {
+    matte?: MatteOptions;
+    encoding?: EncodeOptions;
+  } = {}
+): Promise<{ alignment: Alignment; overSizeLimit?: boolean }> {
+  const { encoded, alignment } = await extractAlphaBuffer(imgOnWhitePath, imgOnBlackPath, options);
+  writeFileSync(outputPath, encoded.buffer);
+  return { alignment, overSizeLimit: encoded.overLimit };
+}
 
-  const { data: dataWhite, info: meta } = await img1
+/**
+ * Difference matting on two passes given as paths or encoded bytes,
+ * returning the encoded result
+ */
+export async function extractAlphaBuffer(
+  imgOnWhitePath: string | Buffer,
+  imgOnBlackPath: string | Buffer,
+  options: {
+    matte?: MatteOptions;
+    encoding?: EncodeOptions;
+  } = {}
+): Promise<{ encoded: EncodedImage; alignment: Alignment }> {
+  const { data: dataWhite, info: meta } = await sharp(imgOnWhitePath)
     .ensureAlpha()
     .raw()
     .toBuffer({ resolveWithObject: true });
 
-  const { data: dataBlack } = await img2
-    .ensureAlpha()
-    .raw()
-    .toBuffer({ resolveWithObject: true });
-
-  if (dataWhite.length !== dataBlack.length) {
-    throw new Error('Dimension mismatch: Images must be identical size');
-  }
+  const { black: dataBlack, alignment } = await registerPasses(imgOnWhitePath, imgOnBlackPath);
 
   const outputBuffer = Buffer.alloc(dataWhite.length);
 
@@ -212,82 +372,228 @@ export async function extractAlphaTwoPass(
     outputBuffer[offset + 3] = Math.round(alpha * 255);
   }
 
-  await sharp(outputBuffer, {
+  if (hasMatteOptions(options.matte)) {
+    refineMatte(outputBuffer, meta.width, meta.height, options.matte, [
+      { data: dataWhite, background: { r: 255, g: 255, b: 255 } },
+      { data: dataBlack, background: { r: 0, g: 0, b: 0 } },
+    ]);
+  }
+
+  const encoded = await encodeImage(sharp(outputBuffer, {
     raw: { width: meta.width, height: meta.height, channels: 4 },
-  })
-    .png()
-    .toFile(outputPath);
+  }), { ...options.encoding, format: transparentFormat(options.encoding) });
+
+  return { encoded, alignment };
 }
 
 export interface TransparentResult {
   path: string;
-  intermediates: {
-    white: string;
+  intermediates?: { // Absent with --no-keep-intermediates
+    white: string;   // The --resume image when resuming
     black: string;
   };
   method: TransparentMethod;
   prompt: string;
+  alignment: Alignment; // How the black pass was registered to the white pass
+  cached?: { white: boolean; black: boolean }; // Present when the response cache is enabled
+  overSizeLimit?: boolean; // Present when --max-size couldn't be met
+}
+
+export interface TransparentOptions {
+  method?: TransparentMethod;
+  type?: ImageType;
+  vars?: Record<string, string>;
+  style?: string; // Appended to the wrapped prompt (brand kits)
+  imageConfig?: ImageConfig;
+  referenceImages?: Buffer[];
+  retry?: Partial<RetryOptions>;
+  provider?: ImageProvider;
+  cache?: CacheOptions;
+  variant?: number;
+  matte?: MatteOptions;
+  encoding?: EncodeOptions;
+  signal?: AbortSignal;
+  onProgress?: ProgressListener;
+  saveIntermediate?: IntermediateWriter;
+  white?: Buffer; // An existing white pass to reuse: only the black edit is made
 }
 
 /**
- * Generate an image with transparency using the two-pass method
+ * A two-pass result in memory: the encoded output and both API passes
  */
-export async function generateWithTransparency(
+export interface TwoPassOutput {
+  buffer: Buffer;
+  format: OutputFormat;
+  white: Buffer;
+  black: Buffer;
+  method: TransparentMethod;
+  alignment: Alignment;
+  cached?: { white: boolean; black: boolean };
+  overSizeLimit?: boolean;
+}
+
+/**
+ * Generate an image with transparency using the two-pass method, without
+ * writing anything
+ */
+export async function transparentBuffer(
   prompt: string,
-  outputDir: string,
-  options: {
-    method?: TransparentMethod;
-    filename?: string;
-    type?: ImageType;
-    imageConfig?: ImageConfig;
-    referenceImages?: Buffer[];
-  } = {}
-): Promise<TransparentResult> {
+  options: TransparentOptions = {}
+): Promise<TwoPassOutput & { prompt: string }> {
   const method = options.method || 'pro-pro';
   const { generate: genModel, edit: editModel } = getModelsForMethod(method);
   const type = options.type || 'image';
+  const provider = options.provider || getProvider();
+  transparentFormat(options.encoding);
 
-  ensureDir(outputDir);
+  if (!options.white) {
+    assertCapabilities(provider, genModel, options.imageConfig, options.referenceImages);
+  }
 
   // Wrap prompt for type and append white background
-  const wrappedPrompt = wrapPromptForType(prompt, type);
+  const wrappedPrompt = appendStyle(wrapPromptForType(prompt, type, options.vars), options.style);
   const whitePrompt = appendWhiteBackground(wrappedPrompt);
 
-  // Step 1: Generate on white background
-  const whiteBuffer = await generateImage(whitePrompt, genModel, options.imageConfig, options.referenceImages);
-  const timestamp = Date.now();
-  const whitePath = resolve(join(outputDir, `_white_${timestamp}.png`));
-  writeFileSync(whitePath, whiteBuffer);
+  const steps = new StepTracker(options.onProgress, options.white ? 2 : 3);
+
+  // Step 1: Generate on white background, unless resuming from one
+  const { buffer: whiteBuffer, cached: whiteCached } = options.white
+    ? { buffer: options.white, cached: false }
+    : await runPass(steps, 'white', options, () => cachedGenerate(provider, {
+      prompt: whitePrompt,
+      model: genModel,
+      config: options.imageConfig,
+      referenceImages: options.referenceImages,
+      retry: options.retry,
+      variant: options.variant,
+      signal: options.signal,
+    }, options.cache));
 
   // Step 2: Edit to black background
-  const blackBuffer = await editImage(whiteBuffer, EDIT_TO_BLACK_PROMPT, editModel, options.imageConfig);
-  const blackPath = resolve(join(outputDir, `_black_${timestamp}.png`));
-  writeFileSync(blackPath, blackBuffer);
+  const { buffer: blackBuffer, cached: blackCached } = await runPass(steps, 'black', options, () => cachedEdit(provider, {
+    image: whiteBuffer,
+    prompt: EDIT_TO_BLACK_PROMPT,
+    model: editModel,
+    config: options.imageConfig,
+    retry: options.retry,
+    signal: options.signal,
+  }, options.cache));
 
   // Step 3: Extract alpha
-  const filename = options.filename || `transparent_${type}_${timestamp}.png`;
-  const outputPath = resolve(join(outputDir, filename));
-  await extractAlphaTwoPass(whitePath, blackPath, outputPath);
+  const { encoded, alignment } = await steps.run('alpha', () => extractAlphaBuffer(whiteBuffer, blackBuffer, {
+    matte: options.matte,
+    encoding: options.encoding,
+  }));
 
   return {
-    path: outputPath,
-    intermediates: {
-      white: whitePath,
-      black: blackPath,
-    },
+    buffer: encoded.buffer,
+    format: encoded.format,
+    white: whiteBuffer,
+    black: blackBuffer,
     method,
     prompt: wrappedPrompt,
+    alignment,
+    cached: isCacheEnabled(options.cache) ? { white: whiteCached, black: blackCached } : undefined,
+    overSizeLimit: encoded.overLimit,
+  };
+}
+
+/**
+ * One API pass as a tracked step, saving its image before the step finishes
+ */
+function runPass(
+  steps: StepTracker,
+  pass: 'white' | 'black',
+  options: { cache?: CacheOptions; saveIntermediate?: IntermediateWriter },
+  call: () => Promise<CacheResult>
+): Promise<CacheResult & { path?: string }> {
+  return steps.run(`${pass}-pass`, async () => {
+    const response = await call();
+    return { ...response, path: await options.saveIntermediate?.(pass, response.buffer) };
+  }, (result) => ({ path: result.path, cached: isCacheEnabled(options.cache) ? result.cached : undefined }));
+}
+
+/**
+ * Writes each API pass next to the output as it arrives, recording its
+ * path. Passes are written even when they won't be kept, so a run that
+ * fails later can be resumed from its white pass.
+ */
+function intermediateWriter(outputDir: string, timestamp: number) {
+  const paths = { white: '', black: '' };
+  const written: string[] = [];
+  const save: IntermediateWriter = async (pass, buffer) => {
+    paths[pass] = await writeIntermediate(outputDir, `_${pass}_${timestamp}`, buffer);
+    written.push(paths[pass]);
+    return paths[pass];
+  };
+  // Paths for the result, or undefined after deleting the files this run wrote
+  const finish = (keep: boolean = true): { white: string; black: string } | undefined => {
+    if (keep) {
+      return paths;
+    }
+    for (const path of written) {
+      unlinkSync(path);
+    }
+    return undefined;
+  };
+  return { paths, save, finish };
+}
+
+/**
+ * Generate an image with transparency using the two-pass method
+ */
+export async function generateWithTransparency(
+  prompt: string,
+  outputDir: string,
+  options: TransparentOptions & {
+    filename?: string;
+    resume?: string;             // White pass from an earlier run: skip generation
+    keepIntermediates?: boolean; // Default: true
+  } = {}
+): Promise<TransparentResult> {
+  const type = options.type || 'image';
+  if (options.resume && !existsSync(options.resume)) {
+    throw new Error(`Resume image not found: ${options.resume}`);
+  }
+
+  ensureDir(outputDir);
+  const timestamp = uniqueTimestamp();
+  const intermediates = intermediateWriter(outputDir, timestamp);
+  if (options.resume) {
+    intermediates.paths.white = resolve(options.resume);
+  }
+  const output = await transparentBuffer(prompt, {
+    ...options,
+    white: options.resume ? readFileSync(options.resume) : options.white,
+    saveIntermediate: intermediates.save,
+  });
+
+  const filename = withExtension(options.filename || `transparent_${type}_${timestamp}`, output.format);
+  const outputPath = resolve(join(outputDir, filename));
+  writeFileSync(outputPath, output.buffer);
+
+  return {
+    path: outputPath,
+    intermediates: intermediates.finish(options.keepIntermediates),
+    method: output.method,
+    prompt: output.prompt,
+    alignment: output.alignment,
+    cached: output.cached,
+    overSizeLimit: output.overSizeLimit,
   };
 }
 
 export interface ExtractTransparencyResult {
   path: string;
-  intermediates: {
+  intermediates?: { // Absent with --no-keep-intermediates
     white: string;
     black: string;
   };
   method: TransparentMethod;
   input: string;
+  alignment: Alignment; // How the black pass was registered to the white pass
+  cached?: { white: boolean; black: boolean }; // Present when the response cache is enabled
+  overSizeLimit?: boolean; // Present when --max-size couldn't be met
 }
 
 export interface LocalTransparencyResult {
@@ -296,6 +602,74 @@ export interface LocalTransparencyResult {
   input: string;
   bgColor: string;
   tolerance: number;
+  mode: LocalMode;
+  overSizeLimit?: boolean; // Present when --max-size couldn't be met
+}
+
+export interface RemoveBackgroundOptions {
+  method?: Exclude<TransparentMethod, 'local'>;
+  imageConfig?: ImageConfig;
+  retry?: Partial<RetryOptions>;
+  provider?: ImageProvider;
+  cache?: CacheOptions;
+  matte?: MatteOptions;
+  encoding?: EncodeOptions;
+  signal?: AbortSignal;
+  onProgress?: ProgressListener;
+  saveIntermediate?: IntermediateWriter;
+}
+
+/**
+ * Remove the background from an image in memory with two API edits,
+ * without writing anything
+ */
+export async function removeBackgroundBuffer(
+  inputBuffer: Buffer,
+  options: RemoveBackgroundOptions = {}
+): Promise<TwoPassOutput> {
+  const method = options.method || 'pro-pro';
+  const { edit: editModel } = getModelsForMethod(method);
+  const provider = options.provider || getProvider();
+  transparentFormat(options.encoding);
+
+  const steps = new StepTracker(options.onProgress, 3);
+
+  // Step 1: Edit to white background
+  const { buffer: whiteBuffer, cached: whiteCached } = await runPass(steps, 'white', options, () => cachedEdit(provider, {
+    image: inputBuffer,
+    prompt: REMOVE_BG_TO_WHITE_PROMPT,
+    model: editModel,
+    config: options.imageConfig,
+    retry: options.retry,
+    signal: options.signal,
+  }, options.cache));
+
+  // Step 2: Edit original to black background
+  const { buffer: blackBuffer, cached: blackCached } = await runPass(steps, 'black', options, () => cachedEdit(provider, {
+    image: inputBuffer,
+    prompt: REMOVE_BG_TO_BLACK_PROMPT,
+    model: editModel,
+    config: options.imageConfig,
+    retry: options.retry,
+    signal: options.signal,
+  }, options.cache));
+
+  // Step 3: Extract alpha
+  const { encoded, alignment } = await steps.run('alpha', () => extractAlphaBuffer(whiteBuffer, blackBuffer, {
+    matte: options.matte,
+    encoding: options.encoding,
+  }));
+
+  return {
+    buffer: encoded.buffer,
+    format: encoded.format,
+    white: whiteBuffer,
+    black: blackBuffer,
+    method,
+    alignment,
+    cached: isCacheEnabled(options.cache) ? { white: whiteCached, black: blackCached } : undefined,
+    overSizeLimit: encoded.overLimit,
+  };
 }
 
 /**
@@ -304,33 +678,44 @@ export interface LocalTransparencyResult {
 export async function extractTransparencyFromImage(
   inputPath: string,
   outputDir: string,
-  options: {
+  options: Omit<RemoveBackgroundOptions, 'method'> & {
     method?: TransparentMethod;
     filename?: string;
-    imageConfig?: ImageConfig;
     bgColor?: BackgroundColor;
     tolerance?: number;
+    localMode?: LocalMode;
+    seeds?: Point[];
+    keepIntermediates?: boolean; // Default: true
   } = {}
 ): Promise<ExtractTransparencyResult | LocalTransparencyResult> {
   const method = options.method || 'pro-pro';
+  const format = transparentFormat(options.encoding);
 
   if (!existsSync(inputPath)) {
     throw new Error(`Input file not found: ${inputPath}`);
   }
 
   ensureDir(outputDir);
+  const timestamp = uniqueTimestamp();
+  const inputName = basename(inputPath, '.png').replace(/\.[^.]+$/, '');
+  const filename = withExtension(options.filename || `${inputName}_transparent_${timestamp}`, format);
+  const outputPath = resolve(join(outputDir, filename));
 
   // Handle local method (no API calls)
   if (method === 'local') {
-    const timestamp = Date.now();
-    const inputName = basename(inputPath, '.png').replace(/\.[^.]+$/, '');
-    const filename = options.filename || `${inputName}_transparent_${timestamp}.png`;
-    const outputPath = resolve(join(outputDir, filename));
-
     const bgColor = options.bgColor || 'auto';
     const tolerance = options.tolerance ?? 30;
+    const mode = options.localMode || 'global';
 
-    await removeBackgroundLocal(inputPath, outputPath, { bgColor, tolerance });
+    const { overSizeLimit } = await removeBackgroundLocal(inputPath, outputPath, {
+      bgColor,
+      tolerance,
+      mode,
+      seeds: options.seeds,
+      matte: options.matte,
+      encoding: options.encoding,
+      onProgress: options.onProgress,
+    });
 
     return {
       path: outputPath,
@@ -338,37 +723,66 @@ export async function extractTransparencyFromImage(
       input: resolve(inputPath),
       bgColor: bgColor,
       tolerance,
+      mode,
+      overSizeLimit,
     };
   }
 
   // API-based methods
-  const { edit: editModel } = getModelsForMethod(method);
-  const inputBuffer = readFileSync(inputPath);
-  const timestamp = Date.now();
+  const intermediates = intermediateWriter(outputDir, timestamp);
+  const output = await removeBackgroundBuffer(readFileSync(inputPath), { ...options, method, saveIntermediate: intermediates.save });
+  writeFileSync(outputPath, output.buffer);
 
-  // Step 1: Edit to white background
-  const whiteBuffer = await editImage(inputBuffer, REMOVE_BG_TO_WHITE_PROMPT, editModel, options.imageConfig);
-  const whitePath = resolve(join(outputDir, `_white_${timestamp}.png`));
-  writeFileSync(whitePath, whiteBuffer);
+  return {
+    path: outputPath,
+    intermediates: intermediates.finish(options.keepIntermediates),
+    method,
+    input: resolve(inputPath),
+    alignment: output.alignment,
+    cached: output.cached,
+    overSizeLimit: output.overSizeLimit,
+  };
+}
 
-  // Step 2: Edit original to black background
-  const blackBuffer = await editImage(inputBuffer, REMOVE_BG_TO_BLACK_PROMPT, editModel, options.imageConfig);
-  const blackPath = resolve(join(outputDir, `_black_${timestamp}.png`));
-  writeFileSync(blackPath, blackBuffer);
+export interface AlphaPairResult {
+  path: string;
+  white: string;
+  black: string;
+  alignment: Alignment; // How the black image was registered to the white one
+  overSizeLimit?: boolean; // Present when --max-size couldn't be met
+}
 
-  // Step 3: Extract alpha
-  const inputName = basename(inputPath, '.png').replace(/\.[^.]+$/, '');
-  const filename = options.filename || `${inputName}_transparent_${timestamp}.png`;
+/**
+ * Difference matting on a white/black pair supplied by the user, such as
+ * the intermediates of an earlier run. No API calls.
+ */
+export async function extractAlphaFromPair(
+  whitePath: string,
+  blackPath: string,
+  outputDir: string,
+  options: {
+    filename?: string;
+    matte?: MatteOptions;
+    encoding?: EncodeOptions;
+  } = {}
+): Promise<AlphaPairResult> {
+  for (const path of [whitePath, blackPath]) {
+    if (!existsSync(path)) {
+      throw new Error(`Input file not found: ${path}`);
+    }
+  }
+  const format = transparentFormat(options.encoding);
+
+  ensureDir(outputDir);
+  const filename = withExtension(options.filename || `alpha_${uniqueTimestamp()}`, format);
   const outputPath = resolve(join(outputDir, filename));
-  await extractAlphaTwoPass(whitePath, blackPath, outputPath);
+  const { alignment, overSizeLimit } = await extractAlphaTwoPass(whitePath, blackPath, outputPath, options);
 
   return {
     path: outputPath,
-    intermediates: {
-      white: whitePath,
-      black: blackPath,
-    },
-    method,
-    input: resolve(inputPath),
+    white: resolve(whitePath),
+    black: resolve(blackPath),
+    alignment,
+    overSizeLimit,
   };
 }
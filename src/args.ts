@@ -0,0 +1,438 @@
+/**
+ * Command-line argument parsing shared by the CLI and batch runner
+ */
+
+import { basename } from 'path';
+import { TransparentMethod, BackgroundColor, LocalMode, Point } from './alpha.js';
+import { Model, AspectRatio, ImageSize, ImageConfig, ASPECT_RATIOS, IMAGE_SIZES } from './gemini.js';
+import { RetryOptions } from './retry.js';
+import { CacheOptions } from './cache.js';
+import { IconPlatform, ICON_PLATFORMS } from './icons.js';
+import { MatteOptions } from './matte.js';
+import { InpaintOptions, Region } from './inpaint.js';
+import { PaletteMode, PALETTE_MODES, isPaletteMode } from './brand.js';
+import { EncodeOptions, OutputFormat, OUTPUT_FORMATS, isOutputFormat } from './format.js';
+import { ProviderName, isProviderName, PROVIDER_NAMES } from './provider.js';
+import { ProgressMode, PROGRESS_MODES } from './progress.js';
+
+export interface ParsedArgs {
+  outputDir?: string;
+  inputImage?: string;
+  prompt?: string;
+  method?: TransparentMethod;
+  model?: Model;
+  resolution?: ImageSize;
+  aspectRatio?: AspectRatio;
+  referenceImages?: string[];
+  bgColor?: BackgroundColor;
+  tolerance?: number;
+  localMode?: LocalMode;
+  seeds?: Point[];
+  name?: string;
+  open?: boolean;
+  showCost?: boolean;
+  dryRun?: boolean;
+  progress?: ProgressMode;
+  concurrency?: number;
+  retries?: number;
+  retryDelay?: number;
+  provider?: ProviderName;
+  cache?: boolean;
+  refreshCache?: boolean;
+  count?: number;
+  sheet?: boolean;
+  variant?: number; // Set internally for each -n variant, not a flag
+  overBudget?: boolean; // Set internally once going over a budget cap was confirmed, not a flag
+  exportIcons?: boolean;
+  padding?: number;
+  platforms?: IconPlatform[];
+  alphaThreshold?: number;
+  despeckle?: number;
+  fillHoles?: number;
+  erode?: number;
+  feather?: number;
+  decontaminate?: boolean;
+  format?: OutputFormat;
+  quality?: number;
+  effort?: number;
+  maxSize?: number; // KB
+  stripMetadata?: boolean;
+  resume?: string;            // transparent*: white pass to reuse
+  keepIntermediates?: boolean;
+  mask?: string;
+  region?: Region;
+  maskFeather?: number;
+  profile?: string;
+  type?: string;
+  vars?: Record<string, string>;
+  brand?: string;
+  paletteMode?: PaletteMode;
+}
+
+export const VALID_ASPECT_RATIOS: AspectRatio[] = ASPECT_RATIOS;
+export const VALID_RESOLUTIONS: ImageSize[] = IMAGE_SIZES;
+
+export const MAX_REFERENCE_IMAGES = 14;
+
+/**
+ * Parse a template variable given as name=value
+ */
+export function parseVar(value: string): [string, string] {
+  const match = value.match(/^([A-Za-z][\w-]*)=(.*)$/s);
+  if (!match) {
+    throw new Error(`Invalid variable: ${value}. Use name=value`);
+  }
+  return [match[1], match[2]];
+}
+
+/**
+ * Parse command arguments. Throws on invalid values so callers
+ * (CLI or batch runner) can decide how to report the error.
+ */
+export function parseArgs(args: string[]): ParsedArgs {
+  const result: ParsedArgs = {};
+  const promptParts: string[] = [];
+  const refImages: string[] = [];
+  const unknownFlags: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '-o' && args[i + 1]) {
+      result.outputDir = args[++i];
+    } else if (arg === '-i' && args[i + 1]) {
+      result.inputImage = args[++i];
+    } else if (arg === '-r' && args[i + 1]) {
+      refImages.push(args[++i]);
+    } else if (arg === '--method' && args[i + 1]) {
+      const method = args[++i];
+      if (method === 'pro-pro' || method === 'pro-flash' || method === 'flash-flash' || method === 'local') {
+        result.method = method;
+      } else {
+        throw new Error(`Invalid method: ${method}. Valid options: pro-pro, pro-flash, flash-flash, local`);
+      }
+    } else if (arg === '--bg-color' && args[i + 1]) {
+      result.bgColor = args[++i] as BackgroundColor;
+    } else if (arg === '--tolerance' && args[i + 1]) {
+      const tol = parseInt(args[++i], 10);
+      if (isNaN(tol) || tol < 0 || tol > 255) {
+        throw new Error(`Invalid tolerance: must be 0-255`);
+      }
+      result.tolerance = tol;
+    } else if (arg === '--local-mode' && args[i + 1]) {
+      const mode = args[++i];
+      if (mode === 'global' || mode === 'flood') {
+        result.localMode = mode;
+      } else {
+        throw new Error(`Invalid local mode: ${mode}. Valid options: global, flood`);
+      }
+    } else if (arg === '--seed' && args[i + 1]) {
+      const value = args[++i];
+      const match = value.match(/^(\d+),(\d+)$/);
+      if (!match) {
+        throw new Error(`Invalid seed: ${value}. Use x,y pixel coordinates`);
+      }
+      result.seeds = [...(result.seeds || []), { x: parseInt(match[1], 10), y: parseInt(match[2], 10) }];
+    } else if (arg === '--model' && args[i + 1]) {
+      const model = args[++i];
+      if (model === 'nano-banana' || model === 'nano-banana-pro') {
+        result.model = model;
+      } else {
+        throw new Error(`Invalid model: ${model}. Valid options: nano-banana, nano-banana-pro`);
+      }
+    } else if (arg === '--resolution' && args[i + 1]) {
+      const res = args[++i] as ImageSize;
+      if (VALID_RESOLUTIONS.includes(res)) {
+        result.resolution = res;
+      } else {
+        throw new Error(`Invalid resolution: ${res}. Valid options: ${VALID_RESOLUTIONS.join(', ')}`);
+      }
+    } else if (arg === '--aspect-ratio' && args[i + 1]) {
+      const ar = args[++i] as AspectRatio;
+      if (VALID_ASPECT_RATIOS.includes(ar)) {
+        result.aspectRatio = ar;
+      } else {
+        throw new Error(`Invalid aspect ratio: ${ar}. Valid options: ${VALID_ASPECT_RATIOS.join(', ')}`);
+      }
+    } else if (arg === '--name' && args[i + 1]) {
+      // Sanitize filename to prevent directory traversal
+      result.name = basename(args[++i]);
+    } else if (arg === '--concurrency' && args[i + 1]) {
+      const concurrency = parseInt(args[++i], 10);
+      if (isNaN(concurrency) || concurrency < 1) {
+        throw new Error(`Invalid concurrency: must be a positive integer`);
+      }
+      result.concurrency = concurrency;
+    } else if (arg === '--retries' && args[i + 1]) {
+      const retries = parseInt(args[++i], 10);
+      if (isNaN(retries) || retries < 0) {
+        throw new Error(`Invalid retries: must be a non-negative integer`);
+      }
+      result.retries = retries;
+    } else if (arg === '--retry-delay' && args[i + 1]) {
+      const delay = parseInt(args[++i], 10);
+      if (isNaN(delay) || delay < 0) {
+        throw new Error(`Invalid retry delay: must be a non-negative number of milliseconds`);
+      }
+      result.retryDelay = delay;
+    } else if (arg === '--provider' && args[i + 1]) {
+      const provider = args[++i];
+      if (isProviderName(provider)) {
+        result.provider = provider;
+      } else {
+        throw new Error(`Invalid provider: ${provider}. Valid options: ${PROVIDER_NAMES.join(', ')}`);
+      }
+    } else if (arg === '--progress' && args[i + 1]) {
+      const mode = args[++i];
+      if ((PROGRESS_MODES as string[]).includes(mode)) {
+        result.progress = mode as ProgressMode;
+      } else {
+        throw new Error(`Invalid progress mode: ${mode}. Valid options: ${PROGRESS_MODES.join(', ')}`);
+      }
+    } else if (arg === '-n' && args[i + 1]) {
+      const count = parseInt(args[++i], 10);
+      if (isNaN(count) || count < 1) {
+        throw new Error(`Invalid count: must be a positive integer`);
+      }
+      result.count = count;
+    } else if (arg === '--sheet') {
+      result.sheet = true;
+    } else if (arg === '--export') {
+      result.exportIcons = true;
+    } else if (arg === '--padding' && args[i + 1]) {
+      const padding = parseFloat(args[++i]);
+      if (isNaN(padding) || padding < 0 || padding >= 50) {
+        throw new Error(`Invalid padding: must be a percentage from 0 to 49`);
+      }
+      result.padding = padding;
+    } else if (arg === '--platforms' && args[i + 1]) {
+      const platforms = args[++i].split(',').map((p) => p.trim());
+      for (const platform of platforms) {
+        if (!(ICON_PLATFORMS as string[]).includes(platform)) {
+          throw new Error(`Invalid platform: ${platform}. Valid options: ${ICON_PLATFORMS.join(', ')}`);
+        }
+      }
+      result.platforms = platforms as IconPlatform[];
+    } else if (arg === '--alpha-threshold' && args[i + 1]) {
+      const threshold = parseInt(args[++i], 10);
+      if (isNaN(threshold) || threshold < 0 || threshold > 127) {
+        throw new Error(`Invalid alpha threshold: must be 0-127`);
+      }
+      result.alphaThreshold = threshold;
+    } else if (arg === '--despeckle' && args[i + 1]) {
+      const area = parseInt(args[++i], 10);
+      if (isNaN(area) || area < 0) {
+        throw new Error(`Invalid despeckle area: must be a non-negative number of pixels`);
+      }
+      result.despeckle = area;
+    } else if (arg === '--fill-holes' && args[i + 1]) {
+      const area = parseInt(args[++i], 10);
+      if (isNaN(area) || area < 0) {
+        throw new Error(`Invalid hole area: must be a non-negative number of pixels`);
+      }
+      result.fillHoles = area;
+    } else if (arg === '--erode' && args[i + 1]) {
+      const radius = parseInt(args[++i], 10);
+      if (isNaN(radius) || radius < 0 || radius > 50) {
+        throw new Error(`Invalid erode radius: must be 0-50 pixels`);
+      }
+      result.erode = radius;
+    } else if (arg === '--feather' && args[i + 1]) {
+      const radius = parseInt(args[++i], 10);
+      if (isNaN(radius) || radius < 0 || radius > 50) {
+        throw new Error(`Invalid feather radius: must be 0-50 pixels`);
+      }
+      result.feather = radius;
+    } else if (arg === '--decontaminate') {
+      result.decontaminate = true;
+    } else if (arg === '--format' && args[i + 1]) {
+      const format = args[++i].toLowerCase().replace(/^jpg$/, 'jpeg');
+      if (isOutputFormat(format)) {
+        result.format = format;
+      } else {
+        throw new Error(`Invalid format: ${format}. Valid options: ${OUTPUT_FORMATS.join(', ')}`);
+      }
+    } else if (arg === '--quality' && args[i + 1]) {
+      const quality = parseInt(args[++i], 10);
+      if (isNaN(quality) || quality < 1 || quality > 100) {
+        throw new Error(`Invalid quality: must be 1-100`);
+      }
+      result.quality = quality;
+    } else if (arg === '--effort' && args[i + 1]) {
+      const effort = parseInt(args[++i], 10);
+      if (isNaN(effort) || effort < 0 || effort > 10) {
+        throw new Error(`Invalid effort: must be 0-10`);
+      }
+      result.effort = effort;
+    } else if (arg === '--max-size' && args[i + 1]) {
+      const maxSize = parseFloat(args[++i]);
+      if (isNaN(maxSize) || maxSize <= 0) {
+        throw new Error(`Invalid max size: must be a positive number of kilobytes`);
+      }
+      result.maxSize = maxSize;
+    } else if (arg === '--strip-metadata') {
+      result.stripMetadata = true;
+    } else if (arg === '--type' && args[i + 1]) {
+      result.type = args[++i];
+    } else if (arg === '--var' && args[i + 1]) {
+      const [key, value] = parseVar(args[++i]);
+      result.vars = { ...result.vars, [key]: value };
+    } else if (arg === '--brand' && args[i + 1]) {
+      result.brand = args[++i];
+    } else if (arg === '--palette-mode' && args[i + 1]) {
+      const mode = args[++i];
+      if (isPaletteMode(mode)) {
+        result.paletteMode = mode;
+      } else {
+        throw new Error(`Invalid palette mode: ${mode}. Valid options: ${PALETTE_MODES.join(', ')}`);
+      }
+    } else if (arg === '--profile' && args[i + 1]) {
+      result.profile = args[++i];
+    } else if (arg === '--mask' && args[i + 1]) {
+      result.mask = args[++i];
+    } else if (arg === '--region' && args[i + 1]) {
+      const value = args[++i];
+      const match = value.match(/^(\d+),(\d+),(\d+),(\d+)$/);
+      if (!match || parseInt(match[3], 10) === 0 || parseInt(match[4], 10) === 0) {
+        throw new Error(`Invalid region: ${value}. Use x,y,width,height in pixels`);
+      }
+      const [x, y, width, height] = match.slice(1).map((n) => parseInt(n, 10));
+      result.region = { x, y, width, height };
+    } else if (arg === '--mask-feather' && args[i + 1]) {
+      const radius = parseInt(args[++i], 10);
+      if (isNaN(radius) || radius < 0 || radius > 100) {
+        throw new Error(`Invalid mask feather: must be 0-100 pixels`);
+      }
+      result.maskFeather = radius;
+    } else if (arg === '--resume' && args[i + 1]) {
+      result.resume = args[++i];
+    } else if (arg === '--keep-intermediates') {
+      result.keepIntermediates = true;
+    } else if (arg === '--no-keep-intermediates') {
+      result.keepIntermediates = false;
+    } else if (arg === '--cache') {
+      result.cache = true;
+    } else if (arg === '--no-cache') {
+      result.cache = false;
+    } else if (arg === '--refresh') {
+      result.refreshCache = true;
+    } else if (arg === '--open') {
+      result.open = true;
+    } else if (arg === '--cost') {
+      result.showCost = true;
+    } else if (arg === '--dry-run') {
+      result.dryRun = true;
+    } else if (arg.startsWith('-')) {
+      // Unknown flag
+      unknownFlags.push(arg);
+    } else {
+      promptParts.push(arg);
+    }
+  }
+
+  // Warn about unknown flags
+  if (unknownFlags.length > 0) {
+    throw new Error(`Unknown flag(s): ${unknownFlags.join(', ')}. Use --help for usage.`);
+  }
+
+  if (promptParts.length > 0) {
+    result.prompt = promptParts.join(' ');
+  }
+
+  if (refImages.length > 0) {
+    if (refImages.length > MAX_REFERENCE_IMAGES) {
+      throw new Error(`Too many reference images: ${refImages.length}. Maximum is ${MAX_REFERENCE_IMAGES}`);
+    }
+    result.referenceImages = refImages;
+  }
+
+  return result;
+}
+
+export function buildImageConfig(parsed: ParsedArgs): ImageConfig | undefined {
+  if (!parsed.resolution && !parsed.aspectRatio) {
+    return undefined;
+  }
+  return {
+    imageSize: parsed.resolution,
+    aspectRatio: parsed.aspectRatio,
+  };
+}
+
+/**
+ * Retry overrides from flags; unset values fall back to config and defaults
+ */
+export function buildRetryOptions(parsed: ParsedArgs): Partial<RetryOptions> {
+  return {
+    maxRetries: parsed.retries,
+    baseDelayMs: parsed.retryDelay,
+  };
+}
+
+export function buildCacheOptions(parsed: ParsedArgs): CacheOptions {
+  return {
+    enabled: parsed.cache,
+    refresh: parsed.refreshCache,
+  };
+}
+
+export function buildIconExportOptions(parsed: ParsedArgs): {
+  platforms?: IconPlatform[];
+  padding?: number;
+  background?: string;
+} {
+  return {
+    platforms: parsed.platforms,
+    padding: parsed.padding !== undefined ? parsed.padding / 100 : undefined,
+    background: parsed.bgColor && parsed.bgColor !== 'auto' ? parsed.bgColor : undefined,
+  };
+}
+
+export function buildMatteOptions(parsed: ParsedArgs): MatteOptions {
+  return {
+    alphaThreshold: parsed.alphaThreshold,
+    despeckle: parsed.despeckle,
+    fillHoles: parsed.fillHoles,
+    erode: parsed.erode,
+    feather: parsed.feather,
+    decontaminate: parsed.decontaminate,
+  };
+}
+
+export function buildEncodeOptions(parsed: ParsedArgs): EncodeOptions {
+  return {
+    format: parsed.format,
+    quality: parsed.quality,
+    effort: parsed.effort,
+    maxBytes: parsed.maxSize !== undefined ? Math.floor(parsed.maxSize * 1024) : undefined,
+  };
+}
+
+export function buildInpaintOptions(parsed: ParsedArgs): InpaintOptions {
+  return {
+    mask: parsed.mask,
+    region: parsed.region,
+    feather: parsed.maskFeather,
+  };
+}
+
+export function requireOutputDir(parsed: ParsedArgs): string {
+  if (!parsed.outputDir) {
+    throw new Error('Output directory required. Use -o <dir>');
+  }
+  return parsed.outputDir;
+}
+
+export function requirePrompt(parsed: ParsedArgs): string {
+  if (!parsed.prompt) {
+    throw new Error('Prompt required');
+  }
+  return parsed.prompt;
+}
+
+export function requireInputImage(parsed: ParsedArgs): string {
+  if (!parsed.inputImage) {
+    throw new Error('Input image required. Use -i <image>');
+  }
+  return parsed.inputImage;
+}
@@ -0,0 +1,501 @@
+/**
+ * Texture atlas packing - trims transparent sprites and packs them into
+ * power-of-two sheets with the max-rects algorithm
+ *
+ * Metadata is written as TexturePacker JSON (hash and/or array) and as a
+ * CSS sprite sheet. As in TexturePacker, a rotated frame is stored turned
+ * 90° clockwise, and its `frame` width/height are the unrotated size.
+ */
+
+import sharp from 'sharp';
+import { existsSync, readdirSync, statSync, writeFileSync } from 'fs';
+import { basename, extname, join, resolve } from 'path';
+import { getToolVersion } from './provenance.js';
+import { ensureDir } from './utils.js';
+
+export type AtlasFormat = 'json-hash' | 'json-array' | 'css';
+
+export const ATLAS_FORMATS: AtlasFormat[] = ['json-hash', 'json-array', 'css'];
+
+export interface AtlasOptions {
+  name?: string;           // Base filename (default: atlas)
+  maxSize?: number;        // Largest sheet side in pixels, a power of two (default: 2048)
+  padding?: number;        // Transparent pixels between sprites (default: 2)
+  extrude?: number;        // Edge pixels repeated around each sprite (default: 0)
+  trim?: boolean;          // Crop transparent borders (default: true)
+  rotate?: boolean;        // Allow 90° rotation for a tighter fit (default: false)
+  formats?: AtlasFormat[]; // Default: json-hash
+}
+
+export interface AtlasSheet {
+  image: string;
+  width: number;
+  height: number;
+  frames: number;
+  data: Partial<Record<'json-hash' | 'json-array', string>>; // Metadata file per format
+}
+
+export interface AtlasResult {
+  sheets: AtlasSheet[];
+  css?: string;       // Present with the css format: one file covering every sheet
+  frames: number;
+  trimmed: number;    // Frames whose transparent border was cropped
+  rotated: number;
+  occupancy: number;  // Sprite pixels over sheet pixels, 0-1
+}
+
+export const DEFAULT_ATLAS_MAX_SIZE = 2048;
+export const DEFAULT_ATLAS_PADDING = 2;
+
+const MAX_SHEET_SIZE = 16384;
+
+// Image files picked up from a directory
+const SPRITE_EXTENSIONS = ['.png', '.webp', '.avif'];
+
+// Two-pass intermediates that sit next to transparent outputs
+const INTERMEDIATE_PATTERN = /^_(white|black)_\d+\./;
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Sprite {
+  name: string;         // Frame name: the file's basename
+  image: Buffer;        // Trimmed pixels, PNG
+  width: number;        // Trimmed size
+  height: number;
+  offsetX: number;      // Position of the trimmed area in the source
+  offsetY: number;
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+interface Placement {
+  sprite: Sprite;
+  x: number;            // Top-left of the extruded sprite
+  y: number;
+  rotated: boolean;
+}
+
+interface PackedSheet {
+  width: number;
+  height: number;
+  placements: Placement[];
+}
+
+/**
+ * Max-rects bin with the best-short-side-fit heuristic
+ * (Jukka Jylänki, "A Thousand Ways to Pack the Bin")
+ */
+class MaxRectsBin {
+  private free: Rect[];
+
+  constructor(width: number, height: number, private readonly allowRotation: boolean) {
+    this.free = [{ x: 0, y: 0, width, height }];
+  }
+
+  insert(width: number, height: number): { x: number; y: number; rotated: boolean } | null {
+    let best: { x: number; y: number; rotated: boolean; short: number; long: number } | null = null;
+    const consider = (free: Rect, w: number, h: number, rotated: boolean) => {
+      if (w > free.width || h > free.height) {
+        return;
+      }
+      const short = Math.min(free.width - w, free.height - h);
+      const long = Math.max(free.width - w, free.height - h);
+      if (!best || short < best.short || (short === best.short && long < best.long)) {
+        best = { x: free.x, y: free.y, rotated, short, long };
+      }
+    };
+    for (const free of this.free) {
+      consider(free, width, height, false);
+      if (this.allowRotation && width !== height) {
+        consider(free, height, width, true);
+      }
+    }
+    if (!best) {
+      return null;
+    }
+
+    const { x, y, rotated } = best;
+    this.place({ x, y, width: rotated ? height : width, height: rotated ? width : height });
+    return { x, y, rotated };
+  }
+
+  private place(used: Rect): void {
+    const next: Rect[] = [];
+    for (const free of this.free) {
+      if (!intersects(free, used)) {
+        next.push(free);
+        continue;
+      }
+      // Keep the parts of the free rectangle on each side of the used one
+      if (used.x > free.x) {
+        next.push({ x: free.x, y: free.y, width: used.x - free.x, height: free.height });
+      }
+      if (used.x + used.width < free.x + free.width) {
+        next.push({ x: used.x + used.width, y: free.y, width: free.x + free.width - used.x - used.width, height: free.height });
+      }
+      if (used.y > free.y) {
+        next.push({ x: free.x, y: free.y, width: free.width, height: used.y - free.y });
+      }
+      if (used.y + used.height < free.y + free.height) {
+        next.push({ x: free.x, y: used.y + used.height, width: free.width, height: free.y + free.height - used.y - used.height });
+      }
+    }
+    // Drop free rectangles contained in another
+    this.free = next.filter((rect, i) => !next.some((other, j) => i !== j && contains(other, rect) && (!contains(rect, other) || j < i)));
+  }
+}
+
+function intersects(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function contains(outer: Rect, inner: Rect): boolean {
+  return inner.x >= outer.x && inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height;
+}
+
+function isPowerOfTwo(n: number): boolean {
+  return Number.isInteger(n) && n > 0 && (n & (n - 1)) === 0;
+}
+
+function nextPowerOfTwo(n: number): number {
+  return 2 ** Math.ceil(Math.log2(Math.max(1, n)));
+}
+
+/**
+ * Files to pack. Directories contribute their image files (not
+ * recursively), skipping two-pass intermediates.
+ */
+export function collectAtlasInputs(paths: string[]): string[] {
+  const files: string[] = [];
+  for (const path of paths) {
+    if (!existsSync(path)) {
+      throw new Error(`Input not found: ${path}`);
+    }
+    if (statSync(path).isDirectory()) {
+      const entries = readdirSync(path)
+        .filter((name) => SPRITE_EXTENSIONS.includes(extname(name).toLowerCase()) && !INTERMEDIATE_PATTERN.test(name))
+        .sort();
+      files.push(...entries.map((name) => join(path, name)));
+    } else {
+      files.push(path);
+    }
+  }
+  if (files.length === 0) {
+    throw new Error('No images to pack');
+  }
+  return files;
+}
+
+/**
+ * Bounds of the pixels with any opacity, or a 1x1 corner if there are none
+ */
+function opaqueBounds(data: Buffer, width: number, height: number): Rect {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) {
+    return { x: 0, y: 0, width: 1, height: 1 };
+  }
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+async function loadSprite(path: string, trim: boolean): Promise<Sprite> {
+  const { data, info } = await sharp(path).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const bounds = trim ? opaqueBounds(data, info.width, info.height) : { x: 0, y: 0, width: info.width, height: info.height };
+  const image = await sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } })
+    .extract({ left: bounds.x, top: bounds.y, width: bounds.width, height: bounds.height })
+    .png()
+    .toBuffer();
+  return {
+    name: basename(path),
+    image,
+    width: bounds.width,
+    height: bounds.height,
+    offsetX: bounds.x,
+    offsetY: bounds.y,
+    sourceWidth: info.width,
+    sourceHeight: info.height,
+  };
+}
+
+/**
+ * Pack as many sprites as fit into one width x height sheet, in order.
+ * The bin is `padding` larger than the sheet so sprites may touch its
+ * right and bottom edges.
+ */
+function packInto(
+  sprites: Sprite[],
+  width: number,
+  height: number,
+  options: { padding: number; extrude: number; rotate: boolean }
+): { placements: Placement[]; rest: Sprite[] } {
+  const bin = new MaxRectsBin(width + options.padding, height + options.padding, options.rotate);
+  const placements: Placement[] = [];
+  const rest: Sprite[] = [];
+  const border = options.extrude * 2 + options.padding;
+  for (const sprite of sprites) {
+    const spot = bin.insert(sprite.width + border, sprite.height + border);
+    if (spot) {
+      placements.push({ sprite, ...spot });
+    } else {
+      rest.push(sprite);
+    }
+  }
+  return { placements, rest };
+}
+
+/**
+ * Size a placed sprite takes on the sheet, including extrusion
+ */
+function footprint(placement: Placement, extrude: number): { width: number; height: number } {
+  const { sprite, rotated } = placement;
+  return {
+    width: (rotated ? sprite.height : sprite.width) + extrude * 2,
+    height: (rotated ? sprite.width : sprite.height) + extrude * 2,
+  };
+}
+
+/**
+ * Split sprites into sheets. Each sheet is the smallest power-of-two size
+ * that takes every remaining sprite; when none does, a full-size sheet is
+ * filled and shrunk to the power-of-two bounds of what was placed.
+ */
+function packSheets(
+  sprites: Sprite[],
+  options: { maxSize: number; padding: number; extrude: number; rotate: boolean }
+): PackedSheet[] {
+  const sizes: number[] = [];
+  for (let size = 1; size <= options.maxSize; size *= 2) {
+    sizes.push(size);
+  }
+  const candidates = sizes
+    .flatMap((width) => sizes.map((height) => ({ width, height })))
+    .sort((a, b) => a.width * a.height - b.width * b.height || Math.abs(Math.log2(a.width / a.height)) - Math.abs(Math.log2(b.width / b.height)));
+
+  // Largest sprites first
+  let remaining = [...sprites].sort((a, b) =>
+    Math.max(b.width, b.height) - Math.max(a.width, a.height) || b.width * b.height - a.width * a.height);
+  const border = options.extrude * 2 + options.padding;
+  const sheets: PackedSheet[] = [];
+
+  while (remaining.length > 0) {
+    const area = remaining.reduce((sum, s) => sum + (s.width + border) * (s.height + border), 0);
+    let sheet: PackedSheet | undefined;
+    for (const { width, height } of candidates) {
+      if ((width + options.padding) * (height + options.padding) < area) {
+        continue;
+      }
+      const { placements, rest } = packInto(remaining, width, height, options);
+      if (rest.length === 0) {
+        sheet = { width, height, placements };
+        remaining = [];
+        break;
+      }
+    }
+
+    if (!sheet) {
+      const { placements, rest } = packInto(remaining, options.maxSize, options.maxSize, options);
+      let right = 1;
+      let bottom = 1;
+      for (const placement of placements) {
+        const size = footprint(placement, options.extrude);
+        right = Math.max(right, placement.x + size.width);
+        bottom = Math.max(bottom, placement.y + size.height);
+      }
+      sheet = { width: nextPowerOfTwo(right), height: nextPowerOfTwo(bottom), placements };
+      remaining = rest;
+    }
+    sheets.push(sheet);
+  }
+  return sheets;
+}
+
+async function renderSheet(sheet: PackedSheet, extrude: number): Promise<Buffer> {
+  const layers: sharp.OverlayOptions[] = [];
+  for (const placement of sheet.placements) {
+    let image = placement.sprite.image;
+    if (placement.rotated) {
+      image = await sharp(image).rotate(90).png().toBuffer();
+    }
+    if (extrude > 0) {
+      image = await sharp(image)
+        .extend({ top: extrude, bottom: extrude, left: extrude, right: extrude, extendWith: 'copy' })
+        .png()
+        .toBuffer();
+    }
+    layers.push({ input: image, left: placement.x, top: placement.y });
+  }
+  return sharp({
+    create: { width: sheet.width, height: sheet.height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+  })
+    .composite(layers)
+    .png()
+    .toBuffer();
+}
+
+/**
+ * A frame in TexturePacker's JSON layout
+ */
+function frameData(placement: Placement, extrude: number): Record<string, unknown> {
+  const { sprite } = placement;
+  return {
+    frame: { x: placement.x + extrude, y: placement.y + extrude, w: sprite.width, h: sprite.height },
+    rotated: placement.rotated,
+    trimmed: sprite.width !== sprite.sourceWidth || sprite.height !== sprite.sourceHeight,
+    spriteSourceSize: { x: sprite.offsetX, y: sprite.offsetY, w: sprite.width, h: sprite.height },
+    sourceSize: { w: sprite.sourceWidth, h: sprite.sourceHeight },
+  };
+}
+
+function cssIdent(name: string): string {
+  return name.replace(/\.[^.]+$/, '').replace(/[^A-Za-z0-9_-]/g, '-').replace(/^(\d)/, '_$1');
+}
+
+/**
+ * CSS sprite classes. Trimmed frames get padding for the cropped border,
+ * so each element keeps its source size without showing its neighbours.
+ */
+function buildCss(name: string, sheets: { image: string; sheet: PackedSheet }[], extrude: number): string {
+  const base = cssIdent(name);
+  const rules = [
+    `.${base} {\n  display: inline-block;\n  box-sizing: content-box;\n  background-repeat: no-repeat;\n  background-origin: content-box;\n  background-clip: content-box;\n}`,
+  ];
+  for (const { image, sheet } of sheets) {
+    for (const { sprite, x, y } of sheet.placements) {
+      const lines = [
+        `  width: ${sprite.width}px;`,
+        `  height: ${sprite.height}px;`,
+      ];
+      const right = sprite.sourceWidth - sprite.offsetX - sprite.width;
+      const bottom = sprite.sourceHeight - sprite.offsetY - sprite.height;
+      if (sprite.offsetX || sprite.offsetY || right || bottom) {
+        lines.push(`  padding: ${sprite.offsetY}px ${right}px ${bottom}px ${sprite.offsetX}px;`);
+      }
+      lines.push(
+        `  background-image: url('${image}');`,
+        `  background-position: -${x + extrude}px -${y + extrude}px;`
+      );
+      rules.push(`.${base}-${cssIdent(sprite.name)} {\n${lines.join('\n')}\n}`);
+    }
+  }
+  return rules.join('\n\n') + '\n';
+}
+
+/**
+ * Pack images into one or more sheets in `outputDir`, with metadata in
+ * each requested format
+ */
+export async function createAtlas(inputs: string[], outputDir: string, options: AtlasOptions = {}): Promise<AtlasResult> {
+  const name = options.name || 'atlas';
+  const maxSize = options.maxSize ?? DEFAULT_ATLAS_MAX_SIZE;
+  const padding = options.padding ?? DEFAULT_ATLAS_PADDING;
+  const extrude = options.extrude ?? 0;
+  const rotate = options.rotate ?? false;
+  const formats = options.formats || ['json-hash'];
+
+  if (!isPowerOfTwo(maxSize) || maxSize > MAX_SHEET_SIZE) {
+    throw new Error(`Invalid max sheet size: ${maxSize}. Use a power of two up to ${MAX_SHEET_SIZE}`);
+  }
+  if (rotate && formats.includes('css')) {
+    throw new Error('CSS sprites can\'t show rotated frames. Leave out the css format or rotation');
+  }
+
+  const files = collectAtlasInputs(inputs);
+  const sprites: Sprite[] = [];
+  for (const file of files) {
+    sprites.push(await loadSprite(file, options.trim ?? true));
+  }
+
+  // Frame names and CSS classes both come from filenames, so both must be unique
+  const seen = new Map<string, string>();
+  for (const [i, sprite] of sprites.entries()) {
+    const key = formats.includes('css') ? cssIdent(sprite.name) : sprite.name;
+    if (seen.has(key)) {
+      throw new Error(`Duplicate sprite name: ${files[i]} and ${seen.get(key)}`);
+    }
+    seen.set(key, files[i]);
+  }
+
+  const border = extrude * 2;
+  for (const [i, sprite] of sprites.entries()) {
+    const fits = (w: number, h: number) => w + border <= maxSize && h + border <= maxSize;
+    if (!fits(sprite.width, sprite.height) && !(rotate && fits(sprite.height, sprite.width))) {
+      throw new Error(`${files[i]} (${sprite.width}x${sprite.height} after trimming) doesn't fit a ${maxSize}x${maxSize} sheet`);
+    }
+  }
+
+  const packed = packSheets(sprites, { maxSize, padding, extrude, rotate });
+  ensureDir(outputDir);
+  const baseNames = packed.map((_, i) => packed.length > 1 ? `${name}_${i + 1}` : name);
+  const hashFiles = baseNames.map((base) => `${base}.json`);
+  const arrayFiles = baseNames.map((base) => `${base}.array.json`);
+
+  const sheets: AtlasSheet[] = [];
+  for (const [i, sheet] of packed.entries()) {
+    const image = `${baseNames[i]}.png`;
+    const imagePath = resolve(join(outputDir, image));
+    writeFileSync(imagePath, await renderSheet(sheet, extrude));
+
+    const meta = (related: string[]) => ({
+      app: 'terminal-banana',
+      version: getToolVersion(),
+      image,
+      format: 'RGBA8888',
+      size: { w: sheet.width, h: sheet.height },
+      scale: '1',
+      ...(packed.length > 1 ? { related_multi_packs: related.filter((_, j) => j !== i) } : {}),
+    });
+
+    const data: AtlasSheet['data'] = {};
+    if (formats.includes('json-hash')) {
+      const frames: Record<string, unknown> = {};
+      for (const placement of sheet.placements) {
+        frames[placement.sprite.name] = frameData(placement, extrude);
+      }
+      data['json-hash'] = resolve(join(outputDir, hashFiles[i]));
+      writeFileSync(data['json-hash'], JSON.stringify({ frames, meta: meta(hashFiles) }, null, 2));
+    }
+    if (formats.includes('json-array')) {
+      const frames = sheet.placements.map((placement) => ({ filename: placement.sprite.name, ...frameData(placement, extrude) }));
+      data['json-array'] = resolve(join(outputDir, arrayFiles[i]));
+      writeFileSync(data['json-array'], JSON.stringify({ frames, meta: meta(arrayFiles) }, null, 2));
+    }
+
+    sheets.push({ image: imagePath, width: sheet.width, height: sheet.height, frames: sheet.placements.length, data });
+  }
+
+  let css: string | undefined;
+  if (formats.includes('css')) {
+    css = resolve(join(outputDir, `${name}.css`));
+    writeFileSync(css, buildCss(name, packed.map((sheet, i) => ({ image: `${baseNames[i]}.png`, sheet })), extrude));
+  }
+
+  const spritePixels = sprites.reduce((sum, s) => sum + s.width * s.height, 0);
+  const sheetPixels = packed.reduce((sum, s) => sum + s.width * s.height, 0);
+  return {
+    sheets,
+    css,
+    frames: sprites.length,
+    trimmed: sprites.filter((s) => s.width !== s.sourceWidth || s.height !== s.sourceHeight).length,
+    rotated: packed.reduce((sum, s) => sum + s.placements.filter((p) => p.rotated).length, 0),
+    occupancy: Math.round(spritePixels / sheetPixels * 1000) / 1000,
+  };
+}
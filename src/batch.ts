@@ -0,0 +1,240 @@
+/**
+ * Batch job runner - executes a manifest of jobs with a concurrency limit
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { ParsedArgs, parseArgs } from './args.js';
+import { JobCommand, CommandResult, isJobCommand, runCommand, validateJob } from './jobs.js';
+import { getJobCost, formatCost } from './cost.js';
+import { describeError } from './errors.js';
+import { withDefaults } from './settings.js';
+import { ProgressListener, tagProgress } from './progress.js';
+import { mapConcurrent } from './utils.js';
+
+/**
+ * A manifest entry. Either pass raw CLI `args`, or use the named fields
+ * (same names as the parsed CLI options). Other options only go in `args`.
+ */
+export interface BatchJobSpec {
+  id?: string;
+  command: string;
+  args?: string[];
+  prompt?: string;
+  outputDir?: string;
+  inputImage?: string;
+  referenceImages?: string[];
+  mask?: string;
+  method?: string;
+  model?: string;
+  resolution?: string;
+  aspectRatio?: string;
+  bgColor?: string;
+  tolerance?: number;
+  name?: string;
+}
+
+export interface BatchJob {
+  index: number;
+  id?: string;
+  command: string;
+  parsed?: ParsedArgs;
+  error?: string; // Set when the manifest entry itself is invalid
+}
+
+export interface BatchJobOutcome {
+  index: number;
+  id?: string;
+  command: string;
+  status: 'succeeded' | 'failed';
+  result?: CommandResult;
+  error?: { code: string; message: string };
+}
+
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  estimatedCost: string;
+  note: string;
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+const SPEC_FIELDS = [
+  'id', 'command', 'args', 'prompt', 'outputDir', 'inputImage', 'referenceImages', 'mask',
+  'method', 'model', 'resolution', 'aspectRatio', 'bgColor', 'tolerance', 'name',
+];
+
+/**
+ * Convert named manifest fields into CLI flags so they go through the
+ * same validation as command-line arguments
+ */
+export function specToArgs(spec: BatchJobSpec): string[] {
+  if (spec.args) {
+    if (!Array.isArray(spec.args) || spec.args.some((a) => typeof a !== 'string')) {
+      throw new Error('"args" must be an array of strings');
+    }
+    return spec.args;
+  }
+
+  const args: string[] = [];
+  const flags: [string, unknown][] = [
+    ['-o', spec.outputDir],
+    ['-i', spec.inputImage],
+    ['--mask', spec.mask],
+    ['--method', spec.method],
+    ['--model', spec.model],
+    ['--resolution', spec.resolution],
+    ['--aspect-ratio', spec.aspectRatio],
+    ['--bg-color', spec.bgColor],
+    ['--tolerance', spec.tolerance],
+    ['--name', spec.name],
+  ];
+  for (const [flag, value] of flags) {
+    if (value !== undefined) {
+      args.push(flag, String(value));
+    }
+  }
+  for (const ref of spec.referenceImages || []) {
+    args.push('-r', ref);
+  }
+  return args;
+}
+
+function buildJob(index: number, spec: unknown, defaultOutputDir?: string): BatchJob {
+  if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+    return { index, command: 'unknown', error: 'Job must be a JSON object' };
+  }
+  const jobSpec = spec as BatchJobSpec;
+  const job: BatchJob = {
+    index,
+    id: jobSpec.id,
+    command: typeof jobSpec.command === 'string' ? jobSpec.command : 'unknown',
+  };
+
+  try {
+    if (!isJobCommand(job.command)) {
+      throw new Error(`Unknown command: ${job.command}`);
+    }
+    // An ignored field could silently change what runs (e.g. "provider")
+    const unknown = Object.keys(jobSpec).find((key) => !SPEC_FIELDS.includes(key));
+    if (unknown !== undefined) {
+      throw new Error(`Unknown field: ${unknown}. Pass other options in "args"`);
+    }
+    const parsed = parseArgs(specToArgs(jobSpec));
+    if (jobSpec.prompt !== undefined) {
+      parsed.prompt = String(jobSpec.prompt);
+    }
+    if (!parsed.outputDir) {
+      parsed.outputDir = defaultOutputDir;
+    }
+    if (parsed.dryRun) {
+      throw new Error('--dry-run applies to a whole batch: terminal-banana batch <manifest> --dry-run');
+    }
+    if (parsed.progress) {
+      throw new Error('--progress applies to a whole batch: terminal-banana batch <manifest> --progress ndjson');
+    }
+    const resolved = withDefaults(job.command, parsed);
+    validateJob(job.command, resolved);
+    job.parsed = resolved;
+  } catch (err) {
+    job.error = err instanceof Error ? err.message : String(err);
+  }
+
+  return job;
+}
+
+/**
+ * Load jobs from a manifest file. A file whose content starts with `[` is
+ * treated as a JSON array, anything else as JSONL (one job per line).
+ * Invalid entries become failed jobs rather than aborting the whole batch.
+ */
+export function loadBatchManifest(manifestPath: string, defaultOutputDir?: string): BatchJob[] {
+  if (!existsSync(manifestPath)) {
+    throw new Error(`Manifest file not found: ${manifestPath}`);
+  }
+  const content = readFileSync(manifestPath, 'utf-8');
+
+  if (content.trimStart().startsWith('[')) {
+    const specs = JSON.parse(content) as unknown[];
+    return specs.map((spec, index) => buildJob(index, spec, defaultOutputDir));
+  }
+
+  const jobs: BatchJob[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    const index = jobs.length;
+    try {
+      jobs.push(buildJob(index, JSON.parse(line), defaultOutputDir));
+    } catch {
+      jobs.push({ index, command: 'unknown', error: `Invalid JSON on job ${index}` });
+    }
+  }
+  return jobs;
+}
+
+/**
+ * Total estimated cost of all valid jobs in a batch
+ */
+export function estimateBatchCost(jobs: BatchJob[]): number {
+  let total = 0;
+  for (const job of jobs) {
+    if (job.parsed) {
+      total += getJobCost(job.command as JobCommand, job.parsed).total;
+    }
+  }
+  return total;
+}
+
+/**
+ * Run all jobs with at most `concurrency` in flight. `onOutcome` is called
+ * as each job finishes (in completion order). A failing job never stops
+ * the others.
+ */
+export async function runBatch(
+  jobs: BatchJob[],
+  options: {
+    concurrency?: number;
+    onOutcome?: (outcome: BatchJobOutcome) => void;
+    onProgress?: ProgressListener; // Step events, tagged with the job's manifest index
+  } = {}
+): Promise<BatchSummary> {
+  const concurrency = options.concurrency || DEFAULT_BATCH_CONCURRENCY;
+  let succeeded = 0;
+  let failed = 0;
+
+  const runOne = async (job: BatchJob): Promise<BatchJobOutcome> => {
+    const base = { index: job.index, id: job.id, command: job.command };
+    if (!job.parsed) {
+      return { ...base, status: 'failed', error: { code: 'INVALID_JOB', message: job.error || 'Invalid job' } };
+    }
+    try {
+      const result = await runCommand(job.command as JobCommand, job.parsed, {
+        onProgress: tagProgress(options.onProgress, { job: job.index }),
+      });
+      return { ...base, status: 'succeeded', result };
+    } catch (err) {
+      return { ...base, status: 'failed', error: describeError(err) };
+    }
+  };
+
+  await mapConcurrent(jobs, concurrency, async (job) => {
+    const outcome = await runOne(job);
+    if (outcome.status === 'succeeded') {
+      succeeded++;
+    } else {
+      failed++;
+    }
+    options.onOutcome?.(outcome);
+  });
+
+  return {
+    total: jobs.length,
+    succeeded,
+    failed,
+    estimatedCost: formatCost(estimateBatchCost(jobs)),
+    note: 'Estimated cost covers every valid job that was attempted. Actual costs may vary.',
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * Brand kits - named bundles of style text, palette, reference images and
+ * defaults, stored in config and applied with --brand
+ *
+ * After generation the output can be mapped onto the kit's palette:
+ * `remap` snaps every pixel to the nearest palette color, `quantize` does
+ * the same with Floyd-Steinberg dithering so gradients survive.
+ */
+
+import sharp from 'sharp';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { loadConfig, saveConfig } from './config.js';
+import { AspectRatio } from './gemini.js';
+import { EncodeOptions, detectFormat, encodeImage } from './format.js';
+import { parseColor } from './utils.js';
+
+export type PaletteMode = 'off' | 'remap' | 'quantize';
+
+export const PALETTE_MODES: PaletteMode[] = ['off', 'remap', 'quantize'];
+
+export interface BrandKit {
+  style?: string;          // Appended to every prompt
+  palette?: string[];      // Hex colors
+  references?: string[];   // Reference images sent with every generation
+  type?: string;           // Default image type for generate/transparent
+  aspectRatio?: AspectRatio;
+  paletteMode?: PaletteMode; // Default: off (adherence is still reported)
+}
+
+export interface PaletteReport {
+  adherence: number;     // Share of visible pixels within tolerance of a palette color, as generated
+  meanDistance: number;  // Mean RGB distance to the nearest palette color, as generated
+  mapped?: PaletteMode;  // Present when the output was remapped or quantized to the palette
+}
+
+export interface BrandResult {
+  name: string;
+  palette?: PaletteReport; // Present when the kit has a palette
+}
+
+export const MAX_BRAND_REFERENCES = 14;
+
+// RGB distance within which a pixel counts as on-palette
+const ADHERENCE_TOLERANCE = 40;
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+type RGB = { r: number; g: number; b: number };
+
+export function isPaletteMode(value: string): value is PaletteMode {
+  return (PALETTE_MODES as string[]).includes(value);
+}
+
+export function listBrands(): Record<string, BrandKit> {
+  return loadConfig()?.brands || {};
+}
+
+export function getBrand(name: string): BrandKit {
+  const brand = listBrands()[name];
+  if (!brand) {
+    throw new Error(`Unknown brand kit: ${name}. Run: terminal-banana brand list`);
+  }
+  return brand;
+}
+
+/**
+ * Save a kit, checking colors and references. Reference paths are stored
+ * absolute so the kit works from any directory.
+ */
+export function addBrand(name: string, kit: BrandKit): BrandKit {
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid brand name: ${name}. Use lowercase letters, digits, - and _`);
+  }
+  for (const color of kit.palette || []) {
+    parseColor(color);
+  }
+  const references = (kit.references || []).map((path) => resolve(path));
+  if (references.length > MAX_BRAND_REFERENCES) {
+    throw new Error(`Too many reference images: ${references.length}. Maximum is ${MAX_BRAND_REFERENCES}`);
+  }
+  for (const path of references) {
+    if (!existsSync(path)) {
+      throw new Error(`Reference image not found: ${path}`);
+    }
+  }
+
+  const saved: BrandKit = { ...kit, references: references.length > 0 ? references : undefined };
+  const config = loadConfig() || {};
+  saveConfig({ ...config, brands: { ...config.brands, [name]: saved } });
+  return saved;
+}
+
+export function removeBrand(name: string): boolean {
+  const config = loadConfig();
+  if (!config?.brands?.[name]) {
+    return false;
+  }
+  const { [name]: _removed, ...brands } = config.brands;
+  saveConfig({ ...config, brands });
+  return true;
+}
+
+function nearest(palette: RGB[], r: number, g: number, b: number): { color: RGB; distance: number } {
+  let best = palette[0];
+  let bestDist = Infinity;
+  for (const color of palette) {
+    const dr = r - color.r;
+    const dg = g - color.g;
+    const db = b - color.b;
+    const dist = dr * dr + dg * dg + db * db;
+    if (dist < bestDist) {
+      best = color;
+      bestDist = dist;
+    }
+  }
+  return { color: best, distance: Math.sqrt(bestDist) };
+}
+
+/**
+ * How closely an RGBA raw buffer sticks to the palette. Mostly transparent
+ * pixels are ignored.
+ */
+export function measurePalette(data: Buffer, palette: RGB[]): { adherence: number; meanDistance: number } {
+  let counted = 0;
+  let onPalette = 0;
+  let total = 0;
+  for (let offset = 0; offset < data.length; offset += 4) {
+    if (data[offset + 3] < 128) continue;
+    const { distance } = nearest(palette, data[offset], data[offset + 1], data[offset + 2]);
+    counted++;
+    total += distance;
+    if (distance <= ADHERENCE_TOLERANCE) {
+      onPalette++;
+    }
+  }
+  if (counted === 0) {
+    return { adherence: 1, meanDistance: 0 };
+  }
+  return {
+    adherence: Math.round((onPalette / counted) * 1000) / 1000,
+    meanDistance: Math.round((total / counted) * 10) / 10,
+  };
+}
+
+function remapPixels(data: Buffer, palette: RGB[]): void {
+  for (let offset = 0; offset < data.length; offset += 4) {
+    const { color } = nearest(palette, data[offset], data[offset + 1], data[offset + 2]);
+    data[offset] = color.r;
+    data[offset + 1] = color.g;
+    data[offset + 2] = color.b;
+  }
+}
+
+/**
+ * Floyd-Steinberg dithering onto the palette
+ */
+function ditherPixels(data: Buffer, width: number, height: number, palette: RGB[]): void {
+  const work = new Float32Array(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    work[i * 3] = data[i * 4];
+    work[i * 3 + 1] = data[i * 4 + 1];
+    work[i * 3 + 2] = data[i * 4 + 2];
+  }
+
+  const spread = (x: number, y: number, err: number[], weight: number) => {
+    if (x < 0 || x >= width || y >= height) return;
+    const i = (y * width + x) * 3;
+    work[i] += err[0] * weight;
+    work[i + 1] += err[1] * weight;
+    work[i + 2] += err[2] * weight;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3;
+      const r = Math.min(255, Math.max(0, work[i]));
+      const g = Math.min(255, Math.max(0, work[i + 1]));
+      const b = Math.min(255, Math.max(0, work[i + 2]));
+      const { color } = nearest(palette, r, g, b);
+      const err = [r - color.r, g - color.g, b - color.b];
+      data[(y * width + x) * 4] = color.r;
+      data[(y * width + x) * 4 + 1] = color.g;
+      data[(y * width + x) * 4 + 2] = color.b;
+      spread(x + 1, y, err, 7 / 16);
+      spread(x - 1, y + 1, err, 3 / 16);
+      spread(x, y + 1, err, 5 / 16);
+      spread(x + 1, y + 1, err, 1 / 16);
+    }
+  }
+}
+
+/**
+ * Measure an output file against the kit's palette and, unless `mode` is
+ * off, rewrite it mapped to the palette in its current format. Transparency
+ * is kept as is.
+ */
+export async function applyPalette(
+  path: string,
+  colors: string[],
+  mode: PaletteMode = 'off',
+  encoding: EncodeOptions = {}
+): Promise<PaletteReport> {
+  const palette = colors.map(parseColor);
+  const source = readFileSync(path);
+  const { data, info } = await sharp(source).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const report: PaletteReport = measurePalette(data, palette);
+
+  if (mode === 'off') {
+    return report;
+  }
+  if (mode === 'remap') {
+    remapPixels(data, palette);
+  } else {
+    ditherPixels(data, info.width, info.height, palette);
+  }
+
+  const { hasAlpha } = await sharp(source).metadata();
+  const image = sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } });
+  const format = (await detectFormat(source)) || 'png';
+  // No palette PNG here: it would re-quantize the colors we just chose
+  const { buffer } = await encodeImage(hasAlpha ? image : image.removeAlpha(), {
+    ...encoding,
+    format,
+    quality: format === 'png' ? undefined : encoding.quality,
+  });
+  writeFileSync(path, buffer);
+  return { ...report, mapped: mode };
+}
@@ -0,0 +1,175 @@
+/**
+ * Content-addressed response cache - avoids paying twice for identical requests
+ *
+ * Entries are keyed on a hash of everything that determines the output:
+ * provider, request kind, model id, prompt, image config and the bytes of
+ * every input/reference image. Eviction is least-recently-used, tracked
+ * via file modification times (touched on every hit).
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync, statSync, unlinkSync, utimesSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getConfigDir, loadConfig } from './config.js';
+import { getModelId } from './gemini.js';
+import { ImageProvider, GenerateRequest, EditRequest } from './provider.js';
+import { ensureDir } from './utils.js';
+
+export interface CacheOptions {
+  enabled?: boolean;  // Overrides the config file setting
+  refresh?: boolean;  // Skip lookup but store the fresh response
+}
+
+export interface CacheResult {
+  buffer: Buffer;
+  cached: boolean;
+}
+
+export interface CacheStats {
+  path: string;
+  enabled: boolean;
+  entries: number;
+  sizeBytes: number;
+  maxSizeBytes: number;
+}
+
+const DEFAULT_MAX_SIZE_MB = 500;
+const ENTRY_SUFFIX = '.img';
+
+export function getCacheDir(): string {
+  return join(getConfigDir(), 'cache');
+}
+
+export function isCacheEnabled(options: CacheOptions = {}): boolean {
+  return options.enabled ?? loadConfig()?.cache?.enabled ?? false;
+}
+
+function getMaxSizeBytes(): number {
+  return (loadConfig()?.cache?.maxSizeMB ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024;
+}
+
+export function computeCacheKey(
+  provider: string,
+  kind: 'generate' | 'edit',
+  request: GenerateRequest | EditRequest,
+  images: Buffer[]
+): string {
+  const hash = createHash('sha256');
+  hash.update(JSON.stringify({
+    provider,
+    kind,
+    model: getModelId(request.model),
+    prompt: request.prompt,
+    aspectRatio: request.config?.aspectRatio ?? null,
+    imageSize: request.config?.imageSize ?? null,
+    variant: 'variant' in request ? request.variant ?? null : null,
+  }));
+  for (const image of images) {
+    hash.update(createHash('sha256').update(image).digest());
+  }
+  return hash.digest('hex');
+}
+
+function listEntries(): { path: string; size: number; mtimeMs: number }[] {
+  const dir = getCacheDir();
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter((name) => name.endsWith(ENTRY_SUFFIX))
+    .map((name) => {
+      const path = join(dir, name);
+      const stat = statSync(path);
+      return { path, size: stat.size, mtimeMs: stat.mtimeMs };
+    });
+}
+
+/**
+ * Remove least recently used entries until the cache fits the size cap
+ */
+function evict(maxSizeBytes: number): void {
+  const entries = listEntries().sort((a, b) => a.mtimeMs - b.mtimeMs);
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of entries) {
+    if (total <= maxSizeBytes) break;
+    unlinkSync(entry.path);
+    total -= entry.size;
+  }
+}
+
+/**
+ * Serve `fn`'s result from the cache when possible, storing it otherwise.
+ * Cache I/O failures never fail the request.
+ */
+export async function withCache(
+  key: string,
+  options: CacheOptions,
+  fn: () => Promise<Buffer>
+): Promise<CacheResult> {
+  if (!isCacheEnabled(options)) {
+    return { buffer: await fn(), cached: false };
+  }
+
+  const path = join(getCacheDir(), key + ENTRY_SUFFIX);
+
+  if (!options.refresh && existsSync(path)) {
+    try {
+      const buffer = readFileSync(path);
+      const now = new Date();
+      utimesSync(path, now, now);
+      return { buffer, cached: true };
+    } catch {
+      // Fall through to a fresh request
+    }
+  }
+
+  const buffer = await fn();
+  try {
+    ensureDir(getCacheDir());
+    writeFileSync(path, buffer);
+    evict(getMaxSizeBytes());
+  } catch {
+    // Ignore cache write errors
+  }
+  return { buffer, cached: false };
+}
+
+export function cachedGenerate(
+  provider: ImageProvider,
+  request: GenerateRequest,
+  options: CacheOptions = {}
+): Promise<CacheResult> {
+  const key = computeCacheKey(provider.name, 'generate', request, request.referenceImages || []);
+  return withCache(key, options, () => provider.generate(request));
+}
+
+export function cachedEdit(
+  provider: ImageProvider,
+  request: EditRequest,
+  options: CacheOptions = {}
+): Promise<CacheResult> {
+  const key = computeCacheKey(provider.name, 'edit', request, [request.image]);
+  return withCache(key, options, () => provider.edit(request));
+}
+
+export function getCacheStats(): CacheStats {
+  const entries = listEntries();
+  return {
+    path: getCacheDir(),
+    enabled: isCacheEnabled(),
+    entries: entries.length,
+    sizeBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+    maxSizeBytes: getMaxSizeBytes(),
+  };
+}
+
+export function clearCache(): { removed: number; freedBytes: number } {
+  const entries = listEntries();
+  for (const entry of entries) {
+    unlinkSync(entry.path);
+  }
+  return {
+    removed: entries.length,
+    freedBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+  };
+}
@@ -6,25 +6,70 @@
 
 import { execFile } from 'child_process';
 import { platform } from 'os';
-import { basename } from 'path';
-import * as readline from 'readline';
+import { resolve } from 'path';
 import {
   loadConfig,
   saveConfig,
-  clearConfig,
+  clearApiKey,
   getConfigPath,
   maskApiKey,
   promptForApiKey,
+  selectProfile,
+  getActiveProfileName,
+  resolveApiKey,
 } from './config.js';
-import { generate, edit, loadReferenceImages } from './generate.js';
+import { resolveDefaults, withDefaults } from './settings.js';
+import { PromptTemplate, listTemplates, getTemplate, addTemplate, removeTemplate } from './templates.js';
+import { BrandKit, PALETTE_MODES, isPaletteMode, listBrands, getBrand, addBrand, removeBrand } from './brand.js';
+import { ASPECT_RATIOS, AspectRatio } from './gemini.js';
 import {
-  generateWithTransparency,
-  extractTransparencyFromImage,
-  TransparentMethod,
-  ImageType,
-  BackgroundColor,
-} from './alpha.js';
-import { Model, AspectRatio, ImageSize, ImageConfig } from './gemini.js';
+  ParsedArgs,
+  parseArgs,
+  buildIconExportOptions,
+  buildImageConfig,
+  buildRetryOptions,
+  buildEncodeOptions,
+  buildMatteOptions,
+  requireOutputDir,
+  requireInputImage,
+  requirePrompt,
+  parseVar,
+} from './args.js';
+import { describeError } from './errors.js';
+import { resolveRetryOptions } from './retry.js';
+import { resolveProviderName, getProvider } from './provider.js';
+import { getCacheStats, clearCache } from './cache.js';
+import { exportIcons } from './icons.js';
+import { AlphaPairResult, extractAlphaFromPair } from './alpha.js';
+import { AtlasFormat, AtlasOptions, ATLAS_FORMATS, createAtlas } from './atlas.js';
+import {
+  HistoryFilter,
+  listHistory,
+  findHistoryEntry,
+  changedInputs,
+  createHistoryEntry,
+  appendHistory,
+  hashFile,
+} from './history.js';
+import { JobCommand, isJobCommand, runCommand, validateJob } from './jobs.js';
+import { checkBudget, getBudget, assertWithinBudget, createUsageReport } from './spend.js';
+import { estimateJobCost, confirmCost, formatCost, getJobCost, COST_NOTE } from './cost.js';
+import { loadBatchManifest, runBatch, estimateBatchCost } from './batch.js';
+import { inspectImage, embedProvenanceWithinCap, provenanceFromHistory } from './provenance.js';
+import { planJob } from './dryrun.js';
+import { startServer, DEFAULT_SERVER_PORT, DEFAULT_SERVER_HOST } from './server.js';
+import { runMcpServer } from './mcp.js';
+import { createProgressReporter } from './progress.js';
+import {
+  listSessions,
+  startSession,
+  editSession,
+  undoSession,
+  exportSession,
+  loadSession,
+  sessionImagePath,
+  summarizeSession,
+} from './session.js';
 
 function printJson(data: unknown): void {
   console.log(JSON.stringify(data, null, 2));
@@ -41,54 +86,8 @@ function openFile(filePath: string): void {
   }
 }
 
-// Estimated costs per image (approximate, based on public pricing)
-const COST_ESTIMATES = {
-  'nano-banana': { generation: 0.02, edit: 0.02 },      // Flash ~$0.02/image
-  'nano-banana-pro': { generation: 0.05, edit: 0.05 }, // Pro ~$0.05/image
-};
-
-interface CostEstimate {
-  model: string;
-  operations: string[];
-  estimatedCost: string;
-  note: string;
-}
-
-function estimateCost(
-  model: Model,
-  operations: ('generation' | 'edit')[]
-): CostEstimate {
-  const costs = COST_ESTIMATES[model];
-  let total = 0;
-  for (const op of operations) {
-    total += costs[op];
-  }
-  return {
-    model,
-    operations,
-    estimatedCost: `~$${total.toFixed(3)}`,
-    note: 'Estimates based on public pricing. Actual costs may vary.',
-  };
-}
-
-async function confirmCost(estimate: CostEstimate): Promise<boolean> {
-  console.log(JSON.stringify(estimate, null, 2));
-
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
-
-  return new Promise((resolve) => {
-    rl.question('Proceed? (y/n): ', (answer) => {
-      rl.close();
-      resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
-    });
-  });
-}
-
-function printError(message: string): never {
-  console.error(JSON.stringify({ error: message }));
+function printError(message: string, code: string = 'ERROR'): never {
+  console.error(JSON.stringify({ error: { code, message } }));
   process.exit(1);
 }
 
@@ -98,8 +97,9 @@ function usage(): void {
 Usage:
   Config:
     terminal-banana config set-key              Set API key (prompts for hidden input)
-    terminal-banana config show                 Show config (key partially masked)
-    terminal-banana config clear                Remove API key
+    terminal-banana config show                 Show effective settings and where each comes from
+    terminal-banana config use <profile>        Switch the active profile ("default" for none)
+    terminal-banana config clear                Remove the stored API key (active profile's, if any)
     terminal-banana config path                 Print config file path
 
   Generate:
@@ -108,9 +108,28 @@ Usage:
     terminal-banana logo -o <dir> "<prompt>"         Generate a logo
     terminal-banana ui -o <dir> "<prompt>"           Generate a UI concept
 
+  Templates (image types):
+    terminal-banana template list               List built-in and custom image types
+    terminal-banana template show <name>        Show a template and its variables
+    terminal-banana template add <name> "<template>" [--description <text>] [--var name=default]
+                                                Add or override a template; it must contain {prompt}
+    terminal-banana template remove <name>      Remove a custom template (or restore a built-in)
+    terminal-banana generate -o <dir> --type <name> [--var name=value] "<prompt>"
+                                                Generate using a template (also for transparent)
+
+  Brand Kits:
+    terminal-banana brand add <name> [--style <text>] [--palette <#hex,...>] [-r <image>]...
+                              [--type <t>] [--aspect-ratio <ar>] [--palette-mode off|remap|quantize]
+                                                Save a reusable style/palette/reference bundle
+    terminal-banana brand list | show <name> | remove <name>
+    terminal-banana icon -o <dir> --brand <name> "<prompt>"
+                                                Apply a kit to any generate, transparent or edit command
+
   Edit:
     terminal-banana edit -o <dir> -i <image> "<prompt>"
                                                 Edit an existing image
+    terminal-banana edit -o <dir> -i <image> --mask <png> | --region x,y,w,h "<prompt>"
+                                                Edit one area; everything else stays identical
 
   Transparent (with alpha channel):
     terminal-banana transparent -o <dir> "<prompt>" [--method pro-pro|pro-flash|flash-flash]
@@ -118,9 +137,62 @@ Usage:
     terminal-banana transparent-logo -o <dir> "<prompt>" [--method ...]
     terminal-banana transparent-ui -o <dir> "<prompt>" [--method ...]
 
+    terminal-banana transparent -o <dir> "<prompt>" --resume <white.png>
+                                                Reuse a white pass from an earlier run; only redo the black edit
+
   Background Removal:
     terminal-banana edit-transparent -o <dir> -i <image> [--method ...]
                                                 Remove background from existing image
+    terminal-banana alpha --white <image> --black <image> -o <dir>
+                                                Difference-matte your own white/black pair (no API calls)
+
+  Icon Export:
+    terminal-banana export-icons -o <dir> -i <image> [--platforms ios,android,web,macos] [--padding <pct>]
+                                                Export iOS, Android, favicon/PWA and macOS icon sets
+
+  Sprite Atlas:
+    terminal-banana atlas -o <dir> <image|dir>... [--name <base>] [--sheet-size <px>] [--padding <px>]
+                          [--extrude <px>] [--rotate] [--no-trim] [--data json-hash,json-array,css]
+                                                Trim and pack sprites into power-of-two sheets with metadata
+
+  History:
+    terminal-banana history list [--command <c>] [--since <date>] [--until <date>] [--search <text>] [--limit <n>]
+                                                List past runs, most recent first
+    terminal-banana history show <id>           Show everything recorded for a run
+    terminal-banana history rerun <id> [options]
+                                                Replay a run, optionally overriding options
+
+  Usage:
+    terminal-banana usage report [--since <date>] [--until <date>]
+                                                Actual API spend by day, model and command, with budget status
+
+  Cache:
+    terminal-banana cache stats                 Show response cache location, size and entry count
+    terminal-banana cache clear                 Delete all cached responses
+
+  Sessions (multi-turn editing):
+    terminal-banana session start [-i <image>] ["<prompt>"]
+                                                Start a session from an image, a prompt, or both
+    terminal-banana session edit <id> "<prompt>"
+                                                Edit the current image, sending the whole conversation
+    terminal-banana session undo <id> [--to <step>]
+                                                Go back a step (the next edit branches from there)
+    terminal-banana session show <id>           Show every step and the current image
+    terminal-banana session list                List sessions, most recently updated first
+    terminal-banana session export <id> -o <dir> [--format ...] [--transparent [--method ...]]
+                                                Write the current image, optionally with background removal
+
+  Inspect:
+    terminal-banana inspect <file>              Show provenance metadata embedded in an output
+
+  Batch:
+    terminal-banana batch <jobs.jsonl> [-o <dir>] [--concurrency <n>]
+                                                Run a manifest of jobs, one NDJSON result per job
+
+  Server:
+    terminal-banana serve -o <dir> [--port <n>] [--host <addr>] [--concurrency <n>] [--keep-jobs <n>]
+                                                HTTP API for generate, edit, transparent and edit-transparent
+    terminal-banana mcp                         MCP server on stdio exposing the image tools to agents
 
 Options:
   -o <dir>              Output directory (required for all generation commands)
@@ -131,354 +203,770 @@ Options:
   --resolution <r>      Image size: 1K (default), 2K, 4K (pro only)
   --aspect-ratio <ar>   Aspect ratio: 1:1 (default), 16:9, 9:16, 4:3, 3:4, etc.
   --bg-color <c>        Background color for local method: white, black, auto, #hex (default: auto)
+                        For icon export: background for opaque icons (default: white)
   --tolerance <n>       Color tolerance for local method: 0-255 (default: 30)
+  --local-mode <m>      Local method: global (default) or flood (only border-connected background)
+  --seed <x,y>          Flood mode: start point, repeatable (default: image border)
+  --alpha-threshold <n> Transparent output: snap alpha within n of 0 or 255 (0-127)
+  --despeckle <px>      Transparent output: remove isolated islands smaller than px pixels
+  --fill-holes <px>     Transparent output: fill enclosed holes up to px pixels
+  --erode <r>           Transparent output: shrink the matte edge by r pixels
+  --feather <r>         Transparent output: soften the matte edge over r pixels
+  --decontaminate       Transparent output: remove background color bleeding into edges
+  --resume <white.png>  transparent*: skip generation and edit this white pass onto black
+  --keep-intermediates / --no-keep-intermediates
+                        Keep the _white_/_black_ passes next to the output (default: keep)
   --name <filename>     Custom output filename (without extension)
   --open                Open generated image in default viewer
   --cost                Show estimated cost before generating (requires confirmation)
+  --dry-run             Print the planned API requests and cost without sending anything or writing files
+  --progress <mode>     Step progress on stderr: ndjson, spinner or none (default: spinner on a terminal)
+  --concurrency <n>     Batch and -n: maximum jobs running at once (default: 3)
+  --retries <n>         Retries for rate-limited/transient API errors (default: 3, 0 disables)
+  --retry-delay <ms>    Base backoff delay, doubled per retry with jitter (default: 1000)
+  --type <name>         generate/transparent: image type template to wrap the prompt with
+  --var <name=value>    Template variable, repeatable
+  --brand <name>        Apply a brand kit: style text, reference images, defaults, palette report
+  --palette-mode <m>    With --brand: off, remap (nearest palette color) or quantize (dithered)
+  --profile <name>      Use a named config profile for this run
+  --provider <p>        Image provider: gemini (default), mock (offline, no API key needed)
+  -n <count>            Generate <count> variants (generate, icon, logo, ui, transparent-*)
+  --sheet               With -n: also write a labeled contact sheet of all variants
+  --export              icon/transparent-icon: also export platform icon sets next to the output
+  --platforms <list>    Icon export platforms, comma-separated (default: ios,android,web,macos)
+  --padding <pct>       Icon export: extra padding per side, on top of platform safe zones (default: 0)
+  --format <f>          Output format: png, webp, avif, jpeg (default: as returned; jpeg not for transparent)
+  --quality <n>         Encoding quality: 1-100 (lossy formats, or palette PNG)
+  --effort <n>          Encoding CPU effort: 0-10
+  --max-size <kb>       Lower quality until the output is at most <kb> kilobytes
+  --mask <png>          edit: only change the white area of this mask
+  --region <x,y,w,h>    edit: only change this rectangle (pixels)
+  --mask-feather <px>   Seam width inside the mask or region (default: 8, 0 for a hard edge)
+  --strip-metadata      Don't embed provenance metadata (prompt, model, settings) in outputs
+  --cache / --no-cache  Enable or disable the response cache for this run (default: from config, off)
+  --refresh             Ignore cached responses but store the fresh ones
+
+Output: JSON for easy parsing. Errors go to stderr as {"error": {"code", "message"}}`);
+}
+
+async function handleConfig(subcommand: string, args: string[]): Promise<void> {
+  switch (subcommand) {
+    case 'set-key': {
+      const apiKey = await promptForApiKey();
+      if (!apiKey.trim()) {
+        printError('API key cannot be empty');
+      }
+      // Saved to the active profile if there is one, creating it if needed
+      const config = loadConfig() || {};
+      const profile = getActiveProfileName();
+      if (profile) {
+        const profiles = config.profiles || {};
+        profiles[profile.value] = { ...profiles[profile.value], apiKey: apiKey.trim() };
+        saveConfig({ ...config, profiles });
+        printJson({ success: true, message: `API key saved to profile ${profile.value}` });
+      } else {
+        saveConfig({ ...config, apiKey: apiKey.trim() });
+        printJson({ success: true, message: 'API key saved' });
+      }
+      break;
+    }
+
+    case 'show': {
+      const apiKey = resolveApiKey();
+      const profile = getActiveProfileName();
+      printJson({
+        configured: apiKey !== null,
+        apiKey: apiKey ? { value: maskApiKey(apiKey.value), source: apiKey.source } : null,
+        profile,
+        profiles: Object.keys(loadConfig()?.profiles || {}),
+        retry: resolveRetryOptions(),
+        provider: resolveProviderName(),
+        defaults: resolveDefaults(),
+      });
+      break;
+    }
+
+    case 'use': {
+      const name = args[0];
+      if (!name) {
+        printError('Profile name required. Usage: terminal-banana config use <profile>');
+      }
+      const config = loadConfig() || {};
+      // "default" goes back to the top-level settings
+      if (name === 'default') {
+        delete config.activeProfile;
+      } else if (!config.profiles?.[name]) {
+        printError(`Unknown profile: ${name}. Create it with: terminal-banana config set-key --profile ${name}`);
+      } else {
+        config.activeProfile = name;
+      }
+      saveConfig(config);
+      printJson({ success: true, profile: config.activeProfile ?? null });
+      break;
+    }
+
+    case 'clear': {
+      // Like set-key, this acts on the active profile if there is one
+      const profile = getActiveProfileName();
+      const cleared = clearApiKey(profile?.value);
+      const from = profile ? `profile ${profile.value}` : 'config';
+      printJson({ success: cleared, message: cleared ? `API key removed from ${from}` : `No API key in ${from}` });
+      break;
+    }
+
+    case 'path': {
+      printJson({ path: getConfigPath() });
+      break;
+    }
 
-Output: JSON for easy parsing`);
+    default:
+      printError(`Unknown config subcommand: ${subcommand}. Use set-key, show, use, clear, or path`);
+  }
 }
 
-interface ParsedArgs {
-  outputDir?: string;
-  inputImage?: string;
-  prompt?: string;
-  method?: TransparentMethod;
-  model?: Model;
-  resolution?: ImageSize;
-  aspectRatio?: AspectRatio;
-  referenceImages?: string[];
-  bgColor?: BackgroundColor;
-  tolerance?: number;
-  name?: string;
-  open?: boolean;
-  showCost?: boolean;
+async function handleJob(command: JobCommand, args: string[]): Promise<void> {
+  await runParsedJob(command, parseArgs(args));
 }
 
-const VALID_ASPECT_RATIOS: AspectRatio[] = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
-const VALID_RESOLUTIONS: ImageSize[] = ['1K', '2K', '4K'];
+async function runParsedJob(command: JobCommand, args: ParsedArgs): Promise<void> {
+  if (args.profile) {
+    selectProfile(args.profile);
+  }
+  const parsed = withDefaults(command, args);
+  validateJob(command, parsed);
+
+  if (parsed.dryRun) {
+    printJson(await planJob(command, parsed));
+    return;
+  }
+
+  // Cost estimation (free for the local method)
+  if (parsed.showCost && !(command === 'edit-transparent' && parsed.method === 'local')) {
+    const estimate = estimateJobCost(command, parsed);
+    const confirmed = await confirmCost(estimate);
+    if (!confirmed) {
+      printJson({ cancelled: true });
+      return;
+    }
+  }
 
-const VALID_FLAGS = new Set([
-  '-o', '-i', '-r', '--method', '--bg-color', '--tolerance',
-  '--model', '--resolution', '--aspect-ratio', '--name', '--open', '--cost'
-]);
+  // Budget caps block the job, or with "action": "confirm" ask first
+  const jobCost = getJobCost(command, parsed).total;
+  const overruns = checkBudget(jobCost);
+  if (overruns.length > 0) {
+    if (getBudget().action !== 'confirm' || !process.stdin.isTTY) {
+      assertWithinBudget(jobCost);
+    }
+    const confirmed = await confirmCost({ budgetExceeded: overruns, note: COST_NOTE });
+    if (!confirmed) {
+      printJson({ cancelled: true });
+      return;
+    }
+    parsed.overBudget = true;
+  }
 
-const MAX_REFERENCE_IMAGES = 14;
+  // Progress goes to stderr; stdout gets only the result
+  const progress = createProgressReporter(parsed.progress);
+  const result = await runCommand(command, parsed, { onProgress: progress?.listener })
+    .finally(() => progress?.stop());
 
-function parseArgs(args: string[]): ParsedArgs {
-  const result: ParsedArgs = {};
-  const promptParts: string[] = [];
-  const refImages: string[] = [];
-  const unknownFlags: string[] = [];
+  printJson(result);
 
-  for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
+  if (parsed.open) {
+    openFile('paths' in result ? result.sheet || result.paths[0] : result.path);
+  }
+}
 
-    if (arg === '-o' && args[i + 1]) {
-      result.outputDir = args[++i];
-    } else if (arg === '-i' && args[i + 1]) {
-      result.inputImage = args[++i];
-    } else if (arg === '-r' && args[i + 1]) {
-      refImages.push(args[++i]);
-    } else if (arg === '--method' && args[i + 1]) {
-      const method = args[++i];
-      if (method === 'pro-pro' || method === 'pro-flash' || method === 'flash-flash' || method === 'local') {
-        result.method = method;
-      } else {
-        printError(`Invalid method: ${method}. Valid options: pro-pro, pro-flash, flash-flash, local`);
-      }
-    } else if (arg === '--bg-color' && args[i + 1]) {
-      result.bgColor = args[++i] as BackgroundColor;
-    } else if (arg === '--tolerance' && args[i + 1]) {
-      const tol = parseInt(args[++i], 10);
-      if (isNaN(tol) || tol < 0 || tol > 255) {
-        printError(`Invalid tolerance: must be 0-255`);
-      }
-      result.tolerance = tol;
-    } else if (arg === '--model' && args[i + 1]) {
-      const model = args[++i];
-      if (model === 'nano-banana' || model === 'nano-banana-pro') {
-        result.model = model;
-      } else {
-        printError(`Invalid model: ${model}. Valid options: nano-banana, nano-banana-pro`);
-      }
-    } else if (arg === '--resolution' && args[i + 1]) {
-      const res = args[++i] as ImageSize;
-      if (VALID_RESOLUTIONS.includes(res)) {
-        result.resolution = res;
-      } else {
-        printError(`Invalid resolution: ${res}. Valid options: ${VALID_RESOLUTIONS.join(', ')}`);
+async function handleBatch(args: string[]): Promise<void> {
+  const parsed = parseArgs(args);
+  if (!parsed.prompt) {
+    printError('Manifest file required. Usage: terminal-banana batch <jobs.jsonl>');
+  }
+  const jobs = loadBatchManifest(parsed.prompt, parsed.outputDir);
+
+  // One compact plan (or error) per job, then the total estimate
+  if (parsed.dryRun) {
+    let failed = 0;
+    for (const job of jobs) {
+      try {
+        if (job.error || !job.parsed) {
+          throw new Error(job.error);
+        }
+        const plan = await planJob(job.command as JobCommand, job.parsed);
+        console.log(JSON.stringify({ index: job.index, id: job.id, ...plan }));
+      } catch (err) {
+        failed++;
+        console.log(JSON.stringify({ index: job.index, id: job.id, command: job.command, error: describeError(err) }));
       }
-    } else if (arg === '--aspect-ratio' && args[i + 1]) {
-      const ar = args[++i] as AspectRatio;
-      if (VALID_ASPECT_RATIOS.includes(ar)) {
-        result.aspectRatio = ar;
-      } else {
-        printError(`Invalid aspect ratio: ${ar}. Valid options: ${VALID_ASPECT_RATIOS.join(', ')}`);
+    }
+    console.log(JSON.stringify({ summary: { dryRun: true, total: jobs.length, invalid: failed, estimatedCost: formatCost(estimateBatchCost(jobs)), note: COST_NOTE } }));
+    if (failed > 0) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  if (parsed.showCost) {
+    const confirmed = await confirmCost({
+      jobs: jobs.length,
+      estimatedCost: formatCost(estimateBatchCost(jobs)),
+      note: COST_NOTE,
+    });
+    if (!confirmed) {
+      printJson({ cancelled: true });
+      return;
+    }
+  }
+
+  // One compact JSON line per job, then the summary
+  // The spinner would be interleaved with the NDJSON outcomes, so batches only report progress when asked
+  const progress = parsed.progress ? createProgressReporter(parsed.progress) : undefined;
+  const summary = await runBatch(jobs, {
+    concurrency: parsed.concurrency,
+    onOutcome: (outcome) => console.log(JSON.stringify(outcome)),
+    onProgress: progress?.listener,
+  }).finally(() => progress?.stop());
+  console.log(JSON.stringify({ summary }));
+
+  if (summary.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+function parseHistoryFilter(args: string[]): HistoryFilter {
+  const filter: HistoryFilter = { limit: 20 };
+
+  const parseDate = (value: string): Date => {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      printError(`Invalid date: ${value}. Use ISO format, e.g. 2025-01-31`);
+    }
+    return date;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--command' && args[i + 1]) {
+      filter.command = args[++i];
+    } else if (arg === '--since' && args[i + 1]) {
+      filter.since = parseDate(args[++i]);
+    } else if (arg === '--until' && args[i + 1]) {
+      filter.until = parseDate(args[++i]);
+    } else if (arg === '--search' && args[i + 1]) {
+      filter.text = args[++i];
+    } else if (arg === '--limit' && args[i + 1]) {
+      const limit = parseInt(args[++i], 10);
+      if (isNaN(limit) || limit < 0) {
+        printError('Invalid limit: must be a non-negative integer (0 for all)');
       }
-    } else if (arg === '--name' && args[i + 1]) {
-      // Sanitize filename to prevent directory traversal
-      result.name = basename(args[++i]);
-    } else if (arg === '--open') {
-      result.open = true;
-    } else if (arg === '--cost') {
-      result.showCost = true;
-    } else if (arg.startsWith('-')) {
-      // Unknown flag
-      unknownFlags.push(arg);
+      filter.limit = limit;
     } else {
-      promptParts.push(arg);
+      printError(`Unknown history list option: ${arg}`);
     }
   }
 
-  // Warn about unknown flags
-  if (unknownFlags.length > 0) {
-    printError(`Unknown flag(s): ${unknownFlags.join(', ')}. Use --help for usage.`);
+  return filter;
+}
+
+async function handleExportIcons(args: string[]): Promise<void> {
+  const parsed = parseArgs(args);
+  const outputDir = requireOutputDir(parsed);
+  const source = requireInputImage(parsed);
+
+  const result = await exportIcons(source, outputDir, buildIconExportOptions(parsed));
+  printJson(result);
+
+  if (parsed.open) {
+    openFile(result.outputDir);
+  }
+}
+
+async function handleAlpha(args: string[]): Promise<void> {
+  // --white and --black only exist here; everything else goes through the usual flags
+  let white: string | undefined;
+  let black: string | undefined;
+  const rest: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--white' && args[i + 1]) {
+      white = args[++i];
+    } else if (args[i] === '--black' && args[i + 1]) {
+      black = args[++i];
+    } else {
+      rest.push(args[i]);
+    }
+  }
+  if (!white || !black) {
+    printError('White and black images required. Usage: terminal-banana alpha --white <image> --black <image> -o <dir>');
   }
 
-  if (promptParts.length > 0) {
-    result.prompt = promptParts.join(' ');
+  const parsed = parseArgs(rest);
+  if (parsed.prompt) {
+    printError(`Unexpected argument: ${parsed.prompt}`);
   }
+  parsed.outputDir ??= resolveDefaults().outputDir?.value;
 
-  if (refImages.length > 0) {
-    if (refImages.length > MAX_REFERENCE_IMAGES) {
-      printError(`Too many reference images: ${refImages.length}. Maximum is ${MAX_REFERENCE_IMAGES}`);
+  const started = Date.now();
+  const encoding = buildEncodeOptions(parsed);
+  const entryDetails = { model: 'local', estimatedCost: formatCost(0), input: hashFile(resolve(white!)) };
+  let result: AlphaPairResult;
+  try {
+    result = await extractAlphaFromPair(white!, black!, requireOutputDir(parsed), {
+      filename: parsed.name,
+      matte: buildMatteOptions(parsed),
+      encoding,
+    });
+    const entry = createHistoryEntry('alpha', parsed, {
+      ...entryDetails,
+      status: 'succeeded',
+      durationMs: Date.now() - started,
+      outputs: [result.path],
+      intermediates: { white: result.white, black: result.black },
+    });
+    if (!parsed.stripMetadata) {
+      const passes = { white: hashFile(result.white).sha256 ?? undefined, black: hashFile(result.black).sha256 ?? undefined };
+      if (await embedProvenanceWithinCap(result.path, { ...provenanceFromHistory(entry), passes }, encoding)) {
+        result.overSizeLimit = true;
+      }
     }
-    result.referenceImages = refImages;
+    appendHistory(entry);
+  } catch (err) {
+    appendHistory(createHistoryEntry('alpha', parsed, {
+      ...entryDetails,
+      status: 'failed',
+      durationMs: Date.now() - started,
+      error: describeError(err),
+    }));
+    throw err;
   }
+  printJson(result);
 
-  return result;
+  if (parsed.open) {
+    openFile(result.path);
+  }
 }
 
-function buildImageConfig(parsed: ParsedArgs): ImageConfig | undefined {
-  if (!parsed.resolution && !parsed.aspectRatio) {
-    return undefined;
-  }
-  return {
-    imageSize: parsed.resolution,
-    aspectRatio: parsed.aspectRatio,
+async function handleAtlas(args: string[]): Promise<void> {
+  const options: AtlasOptions = {};
+  const inputs: string[] = [];
+  let outputDir: string | undefined;
+  let open = false;
+
+  const parsePixels = (flag: string, value: string): number => {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 0) {
+      printError(`Invalid ${flag}: ${value}. Must be a non-negative integer`);
+    }
+    return n;
   };
-}
 
-function requireOutputDir(parsed: ParsedArgs): string {
-  if (!parsed.outputDir) {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = args[i + 1];
+    if ((arg === '-o' || arg === '--output') && value) {
+      outputDir = args[++i];
+    } else if (arg === '--name' && value) {
+      options.name = args[++i];
+    } else if (arg === '--sheet-size' && value) {
+      options.maxSize = parsePixels(arg, args[++i]);
+    } else if (arg === '--padding' && value) {
+      options.padding = parsePixels(arg, args[++i]);
+    } else if (arg === '--extrude' && value) {
+      options.extrude = parsePixels(arg, args[++i]);
+    } else if (arg === '--rotate') {
+      options.rotate = true;
+    } else if (arg === '--no-trim') {
+      options.trim = false;
+    } else if (arg === '--data' && value) {
+      const formats = args[++i].split(',').map((f) => f.trim());
+      const invalid = formats.find((f) => !(ATLAS_FORMATS as string[]).includes(f));
+      if (invalid !== undefined) {
+        printError(`Invalid atlas data format: ${invalid}. Use ${ATLAS_FORMATS.join(', ')}`);
+      }
+      options.formats = formats as AtlasFormat[];
+    } else if (arg === '--open') {
+      open = true;
+    } else if (arg.startsWith('-')) {
+      printError(`Unknown atlas option: ${arg}`);
+    } else {
+      inputs.push(arg);
+    }
+  }
+  if (inputs.length === 0) {
+    printError('Images required. Usage: terminal-banana atlas -o <dir> <image|dir>...');
+  }
+  outputDir ??= resolveDefaults().outputDir?.value;
+  if (!outputDir) {
     printError('Output directory required. Use -o <dir>');
   }
-  return parsed.outputDir;
+
+  const result = await createAtlas(inputs, outputDir!, options);
+  printJson(result);
+
+  if (open) {
+    openFile(result.sheets[0].image);
+  }
 }
 
-function requirePrompt(parsed: ParsedArgs): string {
-  if (!parsed.prompt) {
-    printError('Prompt required');
+async function handleServe(args: string[]): Promise<void> {
+  const options: { port?: number; host?: string; outputDir?: string; concurrency?: number; keepJobs?: number } = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = args[i + 1];
+    if (arg === '--port' && value) {
+      options.port = parseInt(args[++i], 10);
+      if (isNaN(options.port) || options.port < 0 || options.port > 65535) {
+        printError(`Invalid port: ${value}`);
+      }
+    } else if (arg === '--host' && value) {
+      options.host = args[++i];
+    } else if ((arg === '-o' || arg === '--output') && value) {
+      options.outputDir = args[++i];
+    } else if (arg === '--concurrency' && value) {
+      options.concurrency = parseInt(args[++i], 10);
+      if (isNaN(options.concurrency) || options.concurrency < 1) {
+        printError(`Invalid concurrency: ${value}. Must be at least 1`);
+      }
+    } else if (arg === '--keep-jobs' && value) {
+      options.keepJobs = parseInt(args[++i], 10);
+      if (isNaN(options.keepJobs) || options.keepJobs < 1) {
+        printError(`Invalid keep-jobs: ${value}. Must be at least 1`);
+      }
+    } else {
+      printError(`Unknown serve option: ${arg}`);
+    }
   }
-  return parsed.prompt;
+  if (!options.outputDir) {
+    printError('Output directory required. Use -o <dir>');
+  }
+
+  const server = await startServer({
+    ...options,
+    outputDir: options.outputDir!,
+    // One compact JSON line per finished job
+    onJobFinished: (job) => console.log(JSON.stringify({ id: job.id, command: job.command, status: job.status, error: job.error })),
+  });
+  const address = server.address();
+  const port = address && typeof address === 'object' ? address.port : options.port ?? DEFAULT_SERVER_PORT;
+  console.log(JSON.stringify({ listening: `http://${options.host || DEFAULT_SERVER_HOST}:${port}`, outputDir: resolve(options.outputDir!) }));
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
 }
 
-function requireInputImage(parsed: ParsedArgs): string {
-  if (!parsed.inputImage) {
-    printError('Input image required. Use -i <image>');
+async function handleInspect(args: string[]): Promise<void> {
+  if (!args[0]) {
+    printError('Image path required. Usage: terminal-banana inspect <file>');
   }
-  return parsed.inputImage;
+  printJson(await inspectImage(args[0]));
 }
 
-async function handleConfig(subcommand: string): Promise<void> {
+async function handleHistory(subcommand: string, args: string[]): Promise<void> {
   switch (subcommand) {
-    case 'set-key': {
-      const apiKey = await promptForApiKey();
-      if (!apiKey.trim()) {
-        printError('API key cannot be empty');
-      }
-      saveConfig({ apiKey: apiKey.trim() });
-      printJson({ success: true, message: 'API key saved' });
+    case 'list': {
+      const entries = listHistory(parseHistoryFilter(args));
+      printJson(entries.map((entry) => ({
+        id: entry.id,
+        timestamp: entry.timestamp,
+        command: entry.command,
+        status: entry.status,
+        prompt: entry.args.prompt,
+        path: entry.outputs[0],
+      })));
       break;
     }
 
     case 'show': {
-      const config = loadConfig();
-      if (!config) {
-        printJson({ configured: false });
-      } else {
-        printJson({
-          configured: true,
-          apiKey: maskApiKey(config.apiKey),
-        });
+      if (!args[0]) {
+        printError('History id required. Usage: terminal-banana history show <id>');
       }
+      printJson(findHistoryEntry(args[0]));
       break;
     }
 
-    case 'clear': {
-      const cleared = clearConfig();
-      printJson({ success: cleared, message: cleared ? 'Config cleared' : 'No config to clear' });
-      break;
-    }
+    case 'rerun': {
+      if (!args[0]) {
+        printError('History id required. Usage: terminal-banana history rerun <id> [options]');
+      }
+      const entry = findHistoryEntry(args[0]);
+      if (!isJobCommand(entry.command)) {
+        printError(`Cannot rerun command: ${entry.command}`);
+      }
 
-    case 'path': {
-      printJson({ path: getConfigPath() });
+      // Any option given on the command line replaces the recorded one
+      const overrides = parseArgs(args.slice(1));
+      const parsed: ParsedArgs = { ...entry.args };
+      for (const [key, value] of Object.entries(overrides)) {
+        if (value !== undefined) {
+          (parsed as Record<string, unknown>)[key] = value;
+        }
+      }
+
+      const changed = changedInputs(entry);
+      if (changed.length > 0) {
+        console.error(JSON.stringify({ warning: 'Input files changed since the original run', files: changed }));
+      }
+
+      await runParsedJob(entry.command, parsed);
       break;
     }
 
     default:
-      printError(`Unknown config subcommand: ${subcommand}. Use set-key, show, clear, or path`);
+      printError(`Unknown history subcommand: ${subcommand}. Use list, show, or rerun`);
   }
 }
 
-async function handleGenerate(
-  args: string[],
-  type: ImageType
-): Promise<void> {
-  const parsed = parseArgs(args);
-  const outputDir = requireOutputDir(parsed);
-  const prompt = requirePrompt(parsed);
-  const model = parsed.model || 'nano-banana-pro';
+async function handleSession(subcommand: string, args: string[]): Promise<void> {
+  if (subcommand !== 'start' && subcommand !== 'list' && !args[0]) {
+    printError(`Session id required. Usage: terminal-banana session ${subcommand} <id>`);
+  }
 
-  // Cost estimation
-  if (parsed.showCost) {
-    const estimate = estimateCost(model, ['generation']);
-    const confirmed = await confirmCost(estimate);
-    if (!confirmed) {
-      printJson({ cancelled: true });
-      return;
+  switch (subcommand) {
+    case 'start': {
+      const parsed = parseArgs(args);
+      const session = await startSession({
+        inputImage: parsed.inputImage,
+        prompt: parsed.prompt,
+        model: parsed.model,
+        imageConfig: buildImageConfig(parsed),
+        retry: buildRetryOptions(parsed),
+        provider: getProvider(parsed.provider),
+      });
+      printJson(summarizeSession(session));
+      break;
     }
-  }
 
-  // Load reference images if provided
-  const referenceImages = parsed.referenceImages
-    ? loadReferenceImages(parsed.referenceImages)
-    : undefined;
+    case 'edit': {
+      const parsed = parseArgs(args.slice(1));
+      const session = await editSession(args[0], requirePrompt(parsed), {
+        imageConfig: buildImageConfig(parsed),
+        retry: buildRetryOptions(parsed),
+      });
+      printJson(summarizeSession(session));
+      if (parsed.open) {
+        openFile(sessionImagePath(session));
+      }
+      break;
+    }
 
-  const result = await generate(prompt, outputDir, {
-    model,
-    type,
-    imageConfig: buildImageConfig(parsed),
-    referenceImages,
-    filename: parsed.name ? `${parsed.name}.png` : undefined,
-  });
+    case 'undo': {
+      let to: number | undefined;
+      if (args[1] === '--to') {
+        to = parseInt(args[2], 10);
+        if (isNaN(to) || to < 0) {
+          printError(`Invalid step: ${args[2]}`);
+        }
+      } else if (args[1]) {
+        printError(`Unknown session undo option: ${args[1]}`);
+      }
+      printJson(summarizeSession(undoSession(args[0], to)));
+      break;
+    }
 
-  printJson(result);
+    case 'show':
+      printJson(summarizeSession(loadSession(args[0])));
+      break;
 
-  if (parsed.open) {
-    openFile(result.path);
+    case 'list':
+      printJson(listSessions().map((session) => ({
+        id: session.id,
+        updatedAt: session.updatedAt,
+        steps: session.steps.length,
+        head: session.head,
+        prompt: session.steps.find((step) => step.prompt)?.prompt,
+      })));
+      break;
+
+    case 'export': {
+      // --transparent runs the current image through edit-transparent instead of a plain copy
+      const rest = args.slice(1);
+      const transparent = rest.includes('--transparent');
+      const parsed = parseArgs(rest.filter((arg) => arg !== '--transparent'));
+      if (transparent) {
+        const session = loadSession(args[0]);
+        await runParsedJob('edit-transparent', {
+          ...parsed,
+          inputImage: sessionImagePath(session),
+          name: parsed.name || `session_${session.id}_${session.head}`,
+        });
+        break;
+      }
+      const result = await exportSession(args[0], requireOutputDir(parsed), {
+        filename: parsed.name,
+        encoding: buildEncodeOptions(parsed),
+        stripMetadata: parsed.stripMetadata,
+      });
+      printJson(result);
+      if (parsed.open) {
+        openFile(result.path);
+      }
+      break;
+    }
+
+    default:
+      printError(`Unknown session subcommand: ${subcommand}. Use start, edit, undo, show, list, or export`);
   }
 }
 
-async function handleEdit(args: string[]): Promise<void> {
-  const parsed = parseArgs(args);
-  const outputDir = requireOutputDir(parsed);
-  const inputImage = requireInputImage(parsed);
-  const prompt = requirePrompt(parsed);
-  const model = parsed.model || 'nano-banana-pro';
+async function handleTemplate(subcommand: string, args: string[]): Promise<void> {
+  switch (subcommand) {
+    case 'list':
+      printJson(listTemplates().map(({ name, description, source, variables }) => ({ name, description, source, variables })));
+      break;
 
-  // Cost estimation
-  if (parsed.showCost) {
-    const estimate = estimateCost(model, ['edit']);
-    const confirmed = await confirmCost(estimate);
-    if (!confirmed) {
-      printJson({ cancelled: true });
-      return;
+    case 'show': {
+      if (!args[0]) {
+        printError('Template name required. Usage: terminal-banana template show <name>');
+      }
+      printJson(getTemplate(args[0]));
+      break;
     }
-  }
 
-  const result = await edit(inputImage, prompt, outputDir, {
-    model,
-    imageConfig: buildImageConfig(parsed),
-    filename: parsed.name ? `${parsed.name}.png` : undefined,
-  });
+    case 'add': {
+      if (!args[0] || !args[1]) {
+        printError('Usage: terminal-banana template add <name> "<template with {prompt}>" [--description <text>] [--var name=default]');
+      }
+      const template: PromptTemplate = { template: args[1] };
+      for (let i = 2; i < args.length; i++) {
+        if (args[i] === '--description' && args[i + 1]) {
+          template.description = args[++i];
+        } else if (args[i] === '--var' && args[i + 1]) {
+          const [key, value] = parseVar(args[++i]);
+          template.defaults = { ...template.defaults, [key]: value };
+        } else {
+          printError(`Unknown template add option: ${args[i]}`);
+        }
+      }
+      printJson(addTemplate(args[0], template));
+      break;
+    }
 
-  printJson(result);
+    case 'remove': {
+      if (!args[0]) {
+        printError('Template name required. Usage: terminal-banana template remove <name>');
+      }
+      const removed = removeTemplate(args[0]);
+      printJson({ success: removed, message: removed ? `Template ${args[0]} removed` : `No template named ${args[0]}` });
+      break;
+    }
 
-  if (parsed.open) {
-    openFile(result.path);
+    default:
+      printError(`Unknown template subcommand: ${subcommand}. Use list, show, add, or remove`);
   }
 }
 
-async function handleTransparent(
-  args: string[],
-  type: ImageType
-): Promise<void> {
-  const parsed = parseArgs(args);
-  const outputDir = requireOutputDir(parsed);
-  const prompt = requirePrompt(parsed);
-  const method = parsed.method || 'pro-pro';
-
-  // Reject local method for transparent generation - it only works for edit-transparent
-  if (method === 'local') {
-    printError('--method local is only valid for edit-transparent (background removal from existing images). Use pro-pro, pro-flash, or flash-flash for transparent generation.');
-  }
-
-  // Cost estimation (generation + edit for transparency)
-  if (parsed.showCost) {
-    const genModel = method === 'flash-flash' ? 'nano-banana' : 'nano-banana-pro';
-    const editModel = method === 'pro-pro' ? 'nano-banana-pro' : 'nano-banana';
-    const genCost = COST_ESTIMATES[genModel].generation;
-    const editCost = COST_ESTIMATES[editModel].edit;
-    const estimate: CostEstimate = {
-      model: `${genModel} (gen) + ${editModel} (edit)`,
-      operations: ['generation', 'edit'],
-      estimatedCost: `~$${(genCost + editCost).toFixed(3)}`,
-      note: 'Estimates based on public pricing. Actual costs may vary.',
-    };
-    const confirmed = await confirmCost(estimate);
-    if (!confirmed) {
-      printJson({ cancelled: true });
-      return;
+function parseBrandKit(args: string[]): BrandKit {
+  const kit: BrandKit = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = args[i + 1];
+    if (value === undefined) {
+      printError(`Missing value for ${arg}`);
+    }
+    i++;
+    if (arg === '--style') {
+      kit.style = value;
+    } else if (arg === '--palette') {
+      kit.palette = value.split(',').map((color) => color.trim()).filter(Boolean);
+    } else if (arg === '-r') {
+      kit.references = [...(kit.references || []), value];
+    } else if (arg === '--type') {
+      kit.type = getTemplate(value).name;
+    } else if (arg === '--aspect-ratio') {
+      if (!ASPECT_RATIOS.includes(value as AspectRatio)) {
+        printError(`Invalid aspect ratio: ${value}. Valid options: ${ASPECT_RATIOS.join(', ')}`);
+      }
+      kit.aspectRatio = value as AspectRatio;
+    } else if (arg === '--palette-mode') {
+      if (!isPaletteMode(value)) {
+        printError(`Invalid palette mode: ${value}. Valid options: ${PALETTE_MODES.join(', ')}`);
+      }
+      kit.paletteMode = value;
+    } else {
+      printError(`Unknown brand add option: ${arg}`);
     }
   }
+  return kit;
+}
 
-  // Load reference images if provided
-  const referenceImages = parsed.referenceImages
-    ? loadReferenceImages(parsed.referenceImages)
-    : undefined;
+async function handleBrand(subcommand: string, args: string[]): Promise<void> {
+  switch (subcommand) {
+    case 'list':
+      printJson(Object.entries(listBrands()).map(([name, kit]) => ({
+        name,
+        style: kit.style,
+        palette: kit.palette,
+        references: kit.references?.length ?? 0,
+      })));
+      break;
 
-  const result = await generateWithTransparency(prompt, outputDir, {
-    method,
-    type,
-    imageConfig: buildImageConfig(parsed),
-    filename: parsed.name ? `${parsed.name}.png` : undefined,
-    referenceImages,
-  });
+    case 'show': {
+      if (!args[0]) {
+        printError('Brand name required. Usage: terminal-banana brand show <name>');
+      }
+      printJson({ name: args[0], ...getBrand(args[0]) });
+      break;
+    }
 
-  printJson(result);
+    case 'add': {
+      if (!args[0]) {
+        printError('Usage: terminal-banana brand add <name> [--style <text>] [--palette <#hex,...>] [-r <image>] [--type <t>] [--aspect-ratio <ar>] [--palette-mode <m>]');
+      }
+      printJson({ name: args[0], ...addBrand(args[0], parseBrandKit(args.slice(1))) });
+      break;
+    }
 
-  if (parsed.open) {
-    openFile(result.path);
+    case 'remove': {
+      if (!args[0]) {
+        printError('Brand name required. Usage: terminal-banana brand remove <name>');
+      }
+      const removed = removeBrand(args[0]);
+      printJson({ success: removed, message: removed ? `Brand kit ${args[0]} removed` : `No brand kit named ${args[0]}` });
+      break;
+    }
+
+    default:
+      printError(`Unknown brand subcommand: ${subcommand}. Use list, show, add, or remove`);
   }
 }
 
-async function handleEditTransparent(args: string[]): Promise<void> {
-  const parsed = parseArgs(args);
-  const outputDir = requireOutputDir(parsed);
-  const inputImage = requireInputImage(parsed);
-  const method = parsed.method || 'pro-pro';
-
-  // Cost estimation (2x edit for API methods, free for local)
-  if (parsed.showCost && method !== 'local') {
-    const editModel = method === 'pro-pro' ? 'nano-banana-pro' : 'nano-banana';
-    const editCost = COST_ESTIMATES[editModel].edit * 2; // Two edits (white + black)
-    const estimate: CostEstimate = {
-      model: editModel,
-      operations: ['edit (to white)', 'edit (to black)'],
-      estimatedCost: `~$${editCost.toFixed(3)}`,
-      note: 'Estimates based on public pricing. Actual costs may vary.',
-    };
-    const confirmed = await confirmCost(estimate);
-    if (!confirmed) {
-      printJson({ cancelled: true });
-      return;
+async function handleUsage(subcommand: string, args: string[]): Promise<void> {
+  switch (subcommand) {
+    case 'report': {
+      const filter: { since?: Date; until?: Date } = {};
+      for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if ((arg === '--since' || arg === '--until') && args[i + 1]) {
+          const date = new Date(args[++i]);
+          if (isNaN(date.getTime())) {
+            printError(`Invalid date: ${args[i]}`);
+          }
+          filter[arg === '--since' ? 'since' : 'until'] = date;
+        } else {
+          printError(`Unknown usage report option: ${arg}`);
+        }
+      }
+      printJson(createUsageReport(filter));
+      break;
     }
+
+    default:
+      printError(`Unknown usage subcommand: ${subcommand}. Use report`);
   }
+}
 
-  const result = await extractTransparencyFromImage(inputImage, outputDir, {
-    method,
-    imageConfig: buildImageConfig(parsed),
-    bgColor: parsed.bgColor,
-    tolerance: parsed.tolerance,
-    filename: parsed.name ? `${parsed.name}.png` : undefined,
-  });
+async function handleCache(subcommand: string): Promise<void> {
+  switch (subcommand) {
+    case 'stats':
+      printJson(getCacheStats());
+      break;
 
-  printJson(result);
+    case 'clear':
+      printJson({ success: true, ...clearCache() });
+      break;
 
-  if (parsed.open) {
-    openFile(result.path);
+    default:
+      printError(`Unknown cache subcommand: ${subcommand}. Use stats or clear`);
   }
 }
 
@@ -494,61 +982,110 @@ async function main(): Promise<void> {
   const restArgs = args.slice(1);
 
   try {
+    // --profile applies to every command, including config
+    const profileIndex = restArgs.indexOf('--profile');
+    if (profileIndex >= 0) {
+      if (!restArgs[profileIndex + 1]) {
+        printError('Profile name required after --profile');
+      }
+      selectProfile(restArgs[profileIndex + 1]);
+      restArgs.splice(profileIndex, 2);
+    }
+
     switch (command) {
       case 'config': {
         if (!restArgs[0]) {
-          printError('Config subcommand required: set-key, show, clear, or path');
+          printError('Config subcommand required: set-key, show, use, clear, or path');
         }
-        await handleConfig(restArgs[0]);
+        await handleConfig(restArgs[0], restArgs.slice(1));
         break;
       }
 
-      case 'generate':
-        await handleGenerate(restArgs, 'image');
+      case 'history': {
+        if (!restArgs[0]) {
+          printError('History subcommand required: list, show, or rerun');
+        }
+        await handleHistory(restArgs[0], restArgs.slice(1));
         break;
+      }
 
-      case 'icon':
-        await handleGenerate(restArgs, 'icon');
+      case 'cache': {
+        if (!restArgs[0]) {
+          printError('Cache subcommand required: stats or clear');
+        }
+        await handleCache(restArgs[0]);
         break;
+      }
 
-      case 'logo':
-        await handleGenerate(restArgs, 'logo');
+      case 'template': {
+        if (!restArgs[0]) {
+          printError('Template subcommand required: list, show, add, or remove');
+        }
+        await handleTemplate(restArgs[0], restArgs.slice(1));
         break;
+      }
 
-      case 'ui':
-        await handleGenerate(restArgs, 'ui');
+      case 'usage': {
+        if (!restArgs[0]) {
+          printError('Usage subcommand required: report');
+        }
+        await handleUsage(restArgs[0], restArgs.slice(1));
         break;
+      }
 
-      case 'edit':
-        await handleEdit(restArgs);
+      case 'brand': {
+        if (!restArgs[0]) {
+          printError('Brand subcommand required: list, show, add, or remove');
+        }
+        await handleBrand(restArgs[0], restArgs.slice(1));
         break;
+      }
 
-      case 'transparent':
-        await handleTransparent(restArgs, 'image');
+      case 'session': {
+        if (!restArgs[0]) {
+          printError('Session subcommand required: start, edit, undo, show, list, or export');
+        }
+        await handleSession(restArgs[0], restArgs.slice(1));
         break;
+      }
 
-      case 'transparent-icon':
-        await handleTransparent(restArgs, 'icon');
+      case 'export-icons':
+        await handleExportIcons(restArgs);
         break;
 
-      case 'transparent-logo':
-        await handleTransparent(restArgs, 'logo');
+      case 'alpha':
+        await handleAlpha(restArgs);
         break;
 
-      case 'transparent-ui':
-        await handleTransparent(restArgs, 'ui');
+      case 'atlas':
+        await handleAtlas(restArgs);
         break;
 
-      case 'edit-transparent':
-        await handleEditTransparent(restArgs);
+      case 'batch':
+        await handleBatch(restArgs);
+        break;
+
+      case 'inspect':
+        await handleInspect(restArgs);
+        break;
+
+      case 'serve':
+        await handleServe(restArgs);
+        break;
+
+      case 'mcp':
+        await runMcpServer();
         break;
 
       default:
-        printError(`Unknown command: ${command}. Use --help for usage.`);
+        if (!isJobCommand(command)) {
+          printError(`Unknown command: ${command}. Use --help for usage.`);
+        }
+        await handleJob(command, restArgs);
     }
   } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-    printError(message);
+    const { code, message } = describeError(err);
+    printError(message, code);
   }
 }
 
@@ -0,0 +1,455 @@
+/**
+ * Library API - a client for calling the image pipelines from Node code
+ *
+ * A client never prompts, prints or exits. Failures are thrown: BananaError
+ * subclasses for API failures (AbortedError when a signal fires), plain
+ * Errors for invalid input. Results come back as Buffers, and are also
+ * written to disk only when `outputDir` is given. Like CLI jobs, every call
+ * is budget-checked, recorded in history and tagged with provenance.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { Model, ImageConfig, AspectRatio, ImageSize } from './gemini.js';
+import { ParsedArgs } from './args.js';
+import { ImageProvider, ProviderName, createProvider } from './provider.js';
+import { RetryOptions } from './retry.js';
+import { CacheOptions } from './cache.js';
+import { EncodeOptions, OutputFormat, detectFormat, withExtension } from './format.js';
+import { MatteOptions } from './matte.js';
+import { InpaintOptions, Region } from './inpaint.js';
+import { generateBuffer, editBuffer } from './generate.js';
+import {
+  TransparentMethod,
+  BackgroundColor,
+  LocalMode,
+  Point,
+  transparentBuffer,
+  removeBackgroundBuffer,
+  removeBackgroundLocalBuffer,
+} from './alpha.js';
+import { Alignment } from './align.js';
+import { ProgressListener } from './progress.js';
+import { throwIfAborted } from './errors.js';
+import { JobCommand, JobRecord, recordJob } from './jobs.js';
+import { HistoryFile, hashBuffer, hashFile } from './history.js';
+import { embedProvenanceInBufferWithinCap, provenanceFromHistory } from './provenance.js';
+import { ensureDir, uniqueTimestamp } from './utils.js';
+
+export interface ClientOptions {
+  apiKey?: string;                          // Default: TBANANA_API_KEY/GEMINI_API_KEY, then the config file
+  provider?: ProviderName | ImageProvider;  // Default: gemini
+  retry?: Partial<RetryOptions>;            // Unset fields come from config, then the built-in defaults
+  cache?: CacheOptions;                     // Default: disabled
+}
+
+// A file path or encoded image bytes
+export type ImageInput = string | Buffer;
+
+interface CallOptions {
+  resolution?: ImageSize;
+  aspectRatio?: AspectRatio;
+  encoding?: EncodeOptions;
+  outputDir?: string;   // Also write the result (and any intermediates) here
+  name?: string;        // Output filename without extension (default: generated)
+  stripMetadata?: boolean; // Don't embed provenance in the result
+  signal?: AbortSignal;
+  onProgress?: ProgressListener; // Started/finished events for each step
+}
+
+export interface ClientGenerateOptions extends CallOptions {
+  model?: Model;                     // Default: nano-banana-pro
+  type?: string;                     // Image type template (default: image)
+  vars?: Record<string, string>;
+  style?: string;                    // Appended to the wrapped prompt
+  referenceImages?: ImageInput[];
+}
+
+export interface ClientEditOptions extends CallOptions {
+  model?: Model;
+  style?: string;
+  mask?: string;     // Grayscale mask image path, white = editable
+  region?: Region;
+  feather?: number;  // Seam feather radius for mask/region edits
+}
+
+export interface ClientTransparentOptions extends CallOptions {
+  method?: Exclude<TransparentMethod, 'local'>; // Default: pro-pro
+  type?: string;
+  vars?: Record<string, string>;
+  style?: string;
+  referenceImages?: ImageInput[];
+  matte?: MatteOptions;
+  white?: ImageInput; // A white pass from an earlier run: only the black edit is made
+}
+
+export interface ClientRemoveBackgroundOptions extends CallOptions {
+  method?: TransparentMethod;  // Default: pro-pro; local makes no API calls
+  matte?: MatteOptions;
+  bgColor?: BackgroundColor;   // local only
+  tolerance?: number;          // local only
+  localMode?: LocalMode;       // local only
+  seeds?: Point[];             // local only
+}
+
+export interface ImageResult {
+  buffer: Buffer;
+  format: OutputFormat;
+  path?: string;            // Present when outputDir was given
+  model: string;
+  prompt: string;           // As sent, after template wrapping
+  region?: Region;          // Present for mask/region edits
+  cached?: boolean;         // Present when the cache is enabled
+  overSizeLimit?: boolean;  // Present when encoding.maxBytes couldn't be met
+}
+
+export interface TransparentImageResult {
+  buffer: Buffer;
+  format: OutputFormat;
+  path?: string;
+  method: TransparentMethod;
+  prompt?: string;          // Present for generated images
+  intermediates?: {         // The white and black API passes; absent for local removal
+    white: Buffer;
+    black: Buffer;
+    whitePath?: string;
+    blackPath?: string;
+  };
+  alignment?: Alignment;
+  cached?: { white: boolean; black: boolean };
+  overSizeLimit?: boolean;
+}
+
+function readInput(input: ImageInput, kind: 'Input file' | 'Reference image'): Buffer {
+  if (Buffer.isBuffer(input)) {
+    return input;
+  }
+  if (!existsSync(input)) {
+    throw new Error(`${kind} not found: ${input}`);
+  }
+  return readFileSync(input);
+}
+
+function inputPath(input: ImageInput): string | undefined {
+  return Buffer.isBuffer(input) ? undefined : input;
+}
+
+function inputPaths(inputs: ImageInput[] | undefined): string[] | undefined {
+  return inputs?.map(inputPath).filter((path): path is string => path !== undefined);
+}
+
+function hashInput(input: ImageInput): HistoryFile {
+  return Buffer.isBuffer(input) ? hashBuffer(input) : hashFile(resolve(input));
+}
+
+function imageConfig(options: CallOptions): ImageConfig | undefined {
+  if (!options.resolution && !options.aspectRatio) {
+    return undefined;
+  }
+  return { imageSize: options.resolution, aspectRatio: options.aspectRatio };
+}
+
+/**
+ * Where a result named `name` goes in options.outputDir, or undefined
+ * without one
+ */
+function outputPath(options: CallOptions, name: string, format: OutputFormat): string | undefined {
+  if (!options.outputDir) {
+    return undefined;
+  }
+  ensureDir(options.outputDir);
+  return resolve(join(options.outputDir, withExtension(name, format)));
+}
+
+/**
+ * Write `buffer` into options.outputDir, or do nothing without one
+ */
+function save(options: CallOptions, name: string, buffer: Buffer, format: OutputFormat): string | undefined {
+  const path = outputPath(options, name, format);
+  if (path) {
+    writeFileSync(path, buffer);
+  }
+  return path;
+}
+
+/**
+ * The arguments a CLI run of the same call would have had, for the cost
+ * estimate and the history entry. Buffer inputs have no path to record.
+ */
+function callArgs(provider: ImageProvider, options: CallOptions, args: ParsedArgs): ParsedArgs {
+  const { encoding } = options;
+  return {
+    ...args,
+    provider: provider.name,
+    resolution: options.resolution,
+    aspectRatio: options.aspectRatio,
+    outputDir: options.outputDir,
+    name: options.name,
+    format: encoding?.format,
+    quality: encoding?.quality,
+    effort: encoding?.effort,
+    maxSize: encoding?.maxBytes !== undefined ? encoding.maxBytes / 1024 : undefined,
+    stripMetadata: options.stripMetadata,
+  };
+}
+
+type RecordedResult = { buffer: Buffer; format: OutputFormat; path?: string; overSizeLimit?: boolean };
+
+function recordedIntermediates(result: TransparentImageResult): JobRecord['intermediates'] {
+  const { whitePath, blackPath } = result.intermediates || {};
+  return whitePath && blackPath ? { white: whitePath, black: blackPath } : undefined;
+}
+
+export class BananaClient {
+  readonly provider: ImageProvider;
+  private readonly retry?: Partial<RetryOptions>;
+  private readonly cache: CacheOptions;
+
+  constructor(options: ClientOptions = {}) {
+    // One provider per client, so the mock recognises its own earlier outputs
+    this.provider = typeof options.provider === 'object'
+      ? options.provider
+      : createProvider(options.provider || 'gemini', { apiKey: options.apiKey });
+    this.retry = options.retry;
+    this.cache = options.cache || { enabled: false };
+  }
+
+  /**
+   * Generate an image from a text prompt
+   */
+  async generate(prompt: string, options: ClientGenerateOptions = {}): Promise<ImageResult> {
+    throwIfAborted(options.signal);
+    const parsed = callArgs(this.provider, options, {
+      prompt,
+      model: options.model,
+      type: options.type,
+      vars: options.vars,
+      referenceImages: inputPaths(options.referenceImages),
+    });
+    return this.record('generate', parsed, options, async () => {
+      const output = await generateBuffer(prompt, {
+        model: options.model,
+        type: options.type,
+        vars: options.vars,
+        style: options.style,
+        imageConfig: imageConfig(options),
+        referenceImages: options.referenceImages?.map((ref) => readInput(ref, 'Reference image')),
+        retry: this.retry,
+        provider: this.provider,
+        cache: this.cache,
+        encoding: options.encoding,
+        signal: options.signal,
+        onProgress: options.onProgress,
+      });
+      const name = options.name || `${options.type || 'image'}_${uniqueTimestamp()}`;
+      return { ...output, path: outputPath(options, name, output.format) };
+    }, (result) => ({
+      prompt: result.prompt,
+      references: options.referenceImages?.map(hashInput),
+    }));
+  }
+
+  /**
+   * Edit an image with a text instruction, optionally only inside a mask or region
+   */
+  async edit(image: ImageInput, prompt: string, options: ClientEditOptions = {}): Promise<ImageResult> {
+    throwIfAborted(options.signal);
+    const parsed = callArgs(this.provider, options, {
+      prompt,
+      inputImage: inputPath(image),
+      model: options.model,
+      mask: options.mask,
+      region: options.region,
+      maskFeather: options.feather,
+    });
+    return this.record('edit', parsed, options, async () => {
+      const inpaint: InpaintOptions | undefined = options.mask || options.region
+        ? { mask: options.mask, region: options.region, feather: options.feather }
+        : undefined;
+      const output = await editBuffer(readInput(image, 'Input file'), prompt, {
+        model: options.model,
+        imageConfig: imageConfig(options),
+        retry: this.retry,
+        provider: this.provider,
+        cache: this.cache,
+        encoding: options.encoding,
+        inpaint,
+        style: options.style,
+        signal: options.signal,
+        onProgress: options.onProgress,
+      });
+      const name = options.name || `edited_${uniqueTimestamp()}`;
+      return { ...output, path: outputPath(options, name, output.format) };
+    }, (result) => ({
+      prompt: result.prompt,
+      input: hashInput(image),
+    }));
+  }
+
+  /**
+   * Generate an image with a transparent background (two API passes plus
+   * difference matting)
+   */
+  async transparent(prompt: string, options: ClientTransparentOptions = {}): Promise<TransparentImageResult> {
+    throwIfAborted(options.signal);
+    const parsed = callArgs(this.provider, options, {
+      prompt,
+      method: options.method,
+      type: options.type,
+      vars: options.vars,
+      referenceImages: inputPaths(options.referenceImages),
+      resume: options.white !== undefined ? inputPath(options.white) : undefined,
+      ...options.matte,
+    });
+    return this.record('transparent', parsed, options, async (): Promise<TransparentImageResult> => {
+      const output = await transparentBuffer(prompt, {
+        method: options.method,
+        type: options.type,
+        vars: options.vars,
+        style: options.style,
+        imageConfig: imageConfig(options),
+        referenceImages: options.referenceImages?.map((ref) => readInput(ref, 'Reference image')),
+        retry: this.retry,
+        provider: this.provider,
+        cache: this.cache,
+        matte: options.matte,
+        encoding: options.encoding,
+        signal: options.signal,
+        onProgress: options.onProgress,
+        white: options.white ? readInput(options.white, 'Input file') : undefined,
+      });
+      const timestamp = uniqueTimestamp();
+      const name = options.name || `transparent_${options.type || 'image'}_${timestamp}`;
+      return {
+        buffer: output.buffer,
+        format: output.format,
+        path: outputPath(options, name, output.format),
+        method: output.method,
+        prompt: output.prompt,
+        intermediates: await this.intermediates(options, timestamp, output.white, output.black),
+        alignment: output.alignment,
+        cached: output.cached,
+        overSizeLimit: output.overSizeLimit,
+      };
+    }, (result) => ({
+      prompt: result.prompt,
+      intermediates: recordedIntermediates(result),
+      input: options.white !== undefined ? hashInput(options.white) : undefined,
+      references: options.referenceImages?.map(hashInput),
+    }));
+  }
+
+  /**
+   * Remove the background from an existing image
+   */
+  async removeBackground(image: ImageInput, options: ClientRemoveBackgroundOptions = {}): Promise<TransparentImageResult> {
+    throwIfAborted(options.signal);
+    const parsed = callArgs(this.provider, options, {
+      inputImage: inputPath(image),
+      method: options.method,
+      bgColor: options.bgColor,
+      tolerance: options.tolerance,
+      localMode: options.localMode,
+      seeds: options.seeds,
+      ...options.matte,
+    });
+    return this.record('edit-transparent', parsed, options, async (): Promise<TransparentImageResult> => {
+      const input = readInput(image, 'Input file');
+      const timestamp = uniqueTimestamp();
+      const name = options.name || `transparent_${timestamp}`;
+
+      if (options.method === 'local') {
+        const encoded = await removeBackgroundLocalBuffer(input, {
+          bgColor: options.bgColor,
+          tolerance: options.tolerance,
+          mode: options.localMode,
+          seeds: options.seeds,
+          matte: options.matte,
+          encoding: options.encoding,
+          onProgress: options.onProgress,
+        });
+        return {
+          buffer: encoded.buffer,
+          format: encoded.format,
+          path: outputPath(options, name, encoded.format),
+          method: 'local',
+          overSizeLimit: encoded.overLimit,
+        };
+      }
+
+      const output = await removeBackgroundBuffer(input, {
+        method: options.method,
+        imageConfig: imageConfig(options),
+        retry: this.retry,
+        provider: this.provider,
+        cache: this.cache,
+        matte: options.matte,
+        encoding: options.encoding,
+        signal: options.signal,
+        onProgress: options.onProgress,
+      });
+      return {
+        buffer: output.buffer,
+        format: output.format,
+        path: outputPath(options, name, output.format),
+        method: output.method,
+        intermediates: await this.intermediates(options, timestamp, output.white, output.black),
+        alignment: output.alignment,
+        cached: output.cached,
+        overSizeLimit: output.overSizeLimit,
+      };
+    }, (result) => ({
+      intermediates: recordedIntermediates(result),
+      input: hashInput(image),
+    }));
+  }
+
+  /**
+   * Run a call through the same bookkeeping as a CLI job, then embed the
+   * history entry as provenance and write the result
+   */
+  private record<T extends RecordedResult>(
+    command: JobCommand,
+    parsed: ParsedArgs,
+    options: CallOptions,
+    run: () => Promise<T>,
+    record: (result: T) => Omit<JobRecord, 'outputs'>
+  ): Promise<T> {
+    return recordJob(command, parsed, run, (result) => ({
+      ...record(result),
+      outputs: result.path ? [result.path] : [],
+    }), async (result, entry) => {
+      if (!options.stripMetadata) {
+        const embedded = await embedProvenanceInBufferWithinCap(result.buffer, provenanceFromHistory(entry), options.encoding);
+        result.buffer = embedded.buffer;
+        result.overSizeLimit = result.overSizeLimit || embedded.overLimit || undefined;
+      }
+      if (result.path) {
+        writeFileSync(result.path, result.buffer);
+      }
+    });
+  }
+
+  private async intermediates(
+    options: CallOptions,
+    timestamp: number,
+    white: Buffer,
+    black: Buffer
+  ): Promise<TransparentImageResult['intermediates']> {
+    return {
+      white,
+      black,
+      whitePath: save(options, `_white_${timestamp}`, white, (await detectFormat(white)) || 'png'),
+      blackPath: save(options, `_black_${timestamp}`, black, (await detectFormat(black)) || 'png'),
+    };
+  }
+}
+
+/**
+ * A client with its own key and provider. The config file still supplies
+ * custom image types, pricing for the spend ledger, unset retry settings
+ * and, when no key is given, the API key.
+ */
+export function createClient(options: ClientOptions = {}): BananaClient {
+  return new BananaClient(options);
+}
@@ -1,16 +1,73 @@
 /**
- * Config management - API key storage and retrieval
+ * Config management - API key storage and retrieval, named profiles
+ *
+ * API key precedence: TBANANA_API_KEY > GEMINI_API_KEY > the active
+ * profile's key > the top-level key. The active profile is --profile,
+ * then TBANANA_PROFILE, then the one chosen with `config use`.
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync } from 'fs';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { homedir } from 'os';
 import * as readline from 'readline';
+import { AuthInvalidError } from './errors.js';
+import { ProviderName } from './provider.js';
+import { Model, AspectRatio, ImageSize } from './gemini.js';
+import { TransparentMethod } from './alpha.js';
+import { PromptTemplate } from './templates.js';
+import { BrandKit } from './brand.js';
+import { ModelPricing, BudgetConfig } from './spend.js';
+
+/**
+ * Option defaults, from the config file, a profile or a project .tbananarc.json
+ */
+export interface Defaults {
+  model?: Model;
+  method?: TransparentMethod;
+  resolution?: ImageSize;
+  aspectRatio?: AspectRatio;
+  outputDir?: string;
+  name?: string; // Filename template: {command}, {type}, {date}, {timestamp}
+  keepIntermediates?: boolean; // Keep the _white_/_black_ passes of transparent runs (default: true)
+}
+
+export interface Profile {
+  apiKey?: string;
+  defaults?: Defaults;
+}
 
 export interface Config {
-  apiKey: string;
+  apiKey?: string;
+  retry?: {
+    maxRetries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+  };
+  provider?: ProviderName;
+  mock?: {
+    background?: string;
+  };
+  cache?: {
+    enabled?: boolean;
+    maxSizeMB?: number;
+  };
+  defaults?: Defaults;
+  profiles?: Record<string, Profile>;
+  templates?: Record<string, PromptTemplate>;
+  brands?: Record<string, BrandKit>;
+  pricing?: Partial<Record<Model, Partial<ModelPricing>>>;
+  budget?: BudgetConfig;
+  activeProfile?: string;
+}
+
+export interface SettingSource<T> {
+  value: T;
+  source: string; // e.g. "env:GEMINI_API_KEY", "profile:work", "config"
 }
 
+export const API_KEY_ENV_VARS = ['TBANANA_API_KEY', 'GEMINI_API_KEY'];
+export const PROFILE_ENV_VAR = 'TBANANA_PROFILE';
+
 const CONFIG_DIR = join(homedir(), '.config', 'terminal-banana');
 const CONFIG_PATH = join(CONFIG_DIR, 'config.json');
 
@@ -18,6 +75,10 @@ export function getConfigPath(): string {
   return CONFIG_PATH;
 }
 
+export function getConfigDir(): string {
+  return CONFIG_DIR;
+}
+
 export function loadConfig(): Config | null {
   if (!existsSync(CONFIG_PATH)) {
     return null;
@@ -37,20 +98,85 @@ export function saveConfig(config: Config): void {
   writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2));
 }
 
-export function clearConfig(): boolean {
-  if (!existsSync(CONFIG_PATH)) {
+/**
+ * Remove the stored API key: the named profile's, or the top-level one.
+ * Everything else in the config file is kept. Returns false if there was
+ * no key to remove.
+ */
+export function clearApiKey(profile?: string): boolean {
+  const config = loadConfig();
+  const target = profile ? config?.profiles?.[profile] : config;
+  if (!config || !target?.apiKey) {
     return false;
   }
-  unlinkSync(CONFIG_PATH);
+  delete target.apiKey;
+  saveConfig(config);
   return true;
 }
 
+// Set from --profile for the rest of the process
+let selectedProfile: string | undefined;
+
+export function selectProfile(name: string | undefined): void {
+  selectedProfile = name;
+}
+
+/**
+ * Name of the active profile and what chose it, or null for none
+ */
+export function getActiveProfileName(): SettingSource<string> | null {
+  if (selectedProfile) {
+    return { value: selectedProfile, source: '--profile' };
+  }
+  const fromEnv = process.env[PROFILE_ENV_VAR];
+  if (fromEnv) {
+    return { value: fromEnv, source: `env:${PROFILE_ENV_VAR}` };
+  }
+  const fromConfig = loadConfig()?.activeProfile;
+  return fromConfig ? { value: fromConfig, source: 'config' } : null;
+}
+
+/**
+ * The active profile, or null if none is active. Throws if the active
+ * profile doesn't exist in the config file.
+ */
+export function getActiveProfile(): Profile | null {
+  const active = getActiveProfileName();
+  if (!active) {
+    return null;
+  }
+  const profile = loadConfig()?.profiles?.[active.value];
+  if (!profile) {
+    throw new Error(`Unknown profile: ${active.value} (from ${active.source})`);
+  }
+  return profile;
+}
+
+/**
+ * API key and where it came from, or null if there is none
+ */
+export function resolveApiKey(): SettingSource<string> | null {
+  for (const name of API_KEY_ENV_VARS) {
+    const value = process.env[name]?.trim();
+    if (value) {
+      return { value, source: `env:${name}` };
+    }
+  }
+  const active = getActiveProfileName();
+  const fromProfile = getActiveProfile()?.apiKey;
+  if (active && fromProfile) {
+    return { value: fromProfile, source: `profile:${active.value}` };
+  }
+  const fromConfig = loadConfig()?.apiKey;
+  return fromConfig ? { value: fromConfig, source: 'config' } : null;
+}
+
 export function getApiKey(): string {
-  const config = loadConfig();
-  if (!config || !config.apiKey) {
-    throw new Error('API key not configured. Run: terminal-banana config set-key');
+  const apiKey = resolveApiKey();
+  if (!apiKey) {
+    throw new AuthInvalidError(`API key not configured. Run: terminal-banana config set-key, or set ${API_KEY_ENV_VARS.join(' or ')}`);
   }
-  return config.apiKey;
+  return apiKey.value;
 }
 
 export function maskApiKey(key: string): string {
@@ -0,0 +1,118 @@
+/**
+ * Cost estimation and confirmation
+ */
+
+import * as readline from 'readline';
+import { ParsedArgs } from './args.js';
+import { getModelsForMethod } from './alpha.js';
+import { resolveProviderName } from './provider.js';
+import { JobCommand } from './jobs.js';
+import { Model } from './gemini.js';
+import { estimateImageCost } from './spend.js';
+
+export const COST_NOTE = 'Estimates based on per-image list prices (see "pricing" in config). Actual spend is recorded in the usage report.';
+
+export interface CostEstimate {
+  model: string;
+  operations: string[];
+  estimatedCost: string;
+  note: string;
+}
+
+export function formatCost(total: number): string {
+  return `~$${total.toFixed(3)}`;
+}
+
+interface JobCost {
+  model: string;
+  operations: string[];
+  total: number;
+}
+
+/**
+ * Estimated API spend for a single job. Local background removal and the
+ * offline mock provider are free.
+ */
+export function getJobCost(command: JobCommand, parsed: ParsedArgs): JobCost {
+  const cost = getApiJobCost(command, parsed);
+  const count = parsed.count ?? 1;
+  if (count > 1) {
+    cost.operations = cost.operations.map((op) => `${op} x${count}`);
+    cost.total *= count;
+  }
+  if (resolveProviderName(parsed.provider) === 'mock') {
+    return { ...cost, total: 0 };
+  }
+  return cost;
+}
+
+function getApiJobCost(command: JobCommand, parsed: ParsedArgs): JobCost {
+  const method = parsed.method || 'pro-pro';
+  const imageCost = (model: Model) => estimateImageCost(model, parsed.resolution);
+
+  switch (command) {
+    case 'transparent':
+    case 'transparent-icon':
+    case 'transparent-logo':
+    case 'transparent-ui': {
+      const { generate: genModel, edit: editModel } = getModelsForMethod(method);
+      // --resume reuses an existing white pass, so only the black edit is paid for
+      if (parsed.resume) {
+        return { model: `${editModel} (edit)`, operations: ['edit'], total: imageCost(editModel) };
+      }
+      return {
+        model: `${genModel} (gen) + ${editModel} (edit)`,
+        operations: ['generation', 'edit'],
+        total: imageCost(genModel) + imageCost(editModel),
+      };
+    }
+
+    case 'edit-transparent': {
+      if (method === 'local') {
+        return { model: 'local', operations: [], total: 0 };
+      }
+      const { edit: editModel } = getModelsForMethod(method);
+      return {
+        model: editModel,
+        operations: ['edit (to white)', 'edit (to black)'],
+        total: imageCost(editModel) * 2, // Two edits (white + black)
+      };
+    }
+
+    case 'edit': {
+      const model = parsed.model || 'nano-banana-pro';
+      return { model, operations: ['edit'], total: imageCost(model) };
+    }
+
+    default: {
+      const model = parsed.model || 'nano-banana-pro';
+      return { model, operations: ['generation'], total: imageCost(model) };
+    }
+  }
+}
+
+export function estimateJobCost(command: JobCommand, parsed: ParsedArgs): CostEstimate {
+  const { model, operations, total } = getJobCost(command, parsed);
+  return {
+    model,
+    operations,
+    estimatedCost: formatCost(total),
+    note: COST_NOTE,
+  };
+}
+
+export async function confirmCost(estimate: object): Promise<boolean> {
+  console.log(JSON.stringify(estimate, null, 2));
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question('Proceed? (y/n): ', (answer) => {
+      rl.close();
+      resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
+    });
+  });
+}
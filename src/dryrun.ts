@@ -0,0 +1,214 @@
+/**
+ * Dry runs - the exact sequence of API requests a job would make, built
+ * with the same prompt wrapping and payload code as a real run, without
+ * sending anything or writing any files
+ */
+
+import sharp from 'sharp';
+import { existsSync, readFileSync } from 'fs';
+import { basename, resolve } from 'path';
+import { GenerateContentParameters, Part } from '@google/genai';
+import {
+  ParsedArgs,
+  buildImageConfig,
+  buildInpaintOptions,
+  buildMatteOptions,
+  requireInputImage,
+  requireOutputDir,
+  requirePrompt,
+} from './args.js';
+import { Model, ImageConfig, buildGenerateRequest, buildEditRequest } from './gemini.js';
+import { getModelsForMethod } from './alpha.js';
+import { hasInpaintOptions, loadMask, maskBounds, wrapPromptForRegion } from './inpaint.js';
+import { hasMatteOptions } from './matte.js';
+import { ProviderName, getProvider, assertCapabilities } from './provider.js';
+import { getBrand } from './brand.js';
+import { JobCommand, getImageType } from './jobs.js';
+import { CostEstimate, estimateJobCost, getJobCost } from './cost.js';
+import { BudgetOverrun, checkBudget } from './spend.js';
+import {
+  appendStyle,
+  appendWhiteBackground,
+  EDIT_TO_BLACK_PROMPT,
+  REMOVE_BG_TO_WHITE_PROMPT,
+  REMOVE_BG_TO_BLACK_PROMPT,
+} from './prompts.js';
+import { wrapPromptForType } from './utils.js';
+
+export interface PlannedStep {
+  step: number;
+  action: 'generate' | 'edit' | 'local'; // local steps make no API call
+  description: string;
+  model?: Model;
+  request?: GenerateContentParameters;   // Image data is replaced by a summary string
+}
+
+export interface DryRunPlan {
+  dryRun: true;
+  command: JobCommand;
+  provider: ProviderName;
+  outputDir: string;
+  variants?: number; // Present with -n: the steps run once per variant
+  steps: PlannedStep[];
+  cost: CostEstimate;
+  budgetExceeded?: BudgetOverrun[]; // Present when the job would go over a budget cap
+}
+
+// An image sent with a request: a file's bytes, or the output of an earlier step
+type PlannedImage = { buffer: Buffer; label: string };
+
+async function fileImage(path: string, kind: 'Input file' | 'Reference image' | 'Resume image'): Promise<PlannedImage> {
+  if (!existsSync(path)) {
+    throw new Error(`${kind} not found: ${path}`);
+  }
+  const buffer = readFileSync(path);
+  const { width, height } = await sharp(buffer).metadata();
+  return { buffer, label: `<${basename(path)}: ${width}x${height}, ${buffer.length} bytes>` };
+}
+
+function stepOutput(step: number): PlannedImage {
+  return { buffer: Buffer.alloc(0), label: `<output of step ${step}>` };
+}
+
+/**
+ * Swap the base64 data of each inline image, in order, for its label
+ */
+function summarize(request: GenerateContentParameters, images: PlannedImage[]): GenerateContentParameters {
+  if (!Array.isArray(request.contents)) {
+    return request;
+  }
+  let index = 0;
+  const contents = (request.contents as Part[]).map((part) => part.inlineData
+    ? { inlineData: { ...part.inlineData, data: images[index++].label } }
+    : part);
+  return { ...request, contents };
+}
+
+class Planner {
+  readonly steps: PlannedStep[] = [];
+
+  constructor(private readonly config?: ImageConfig) {}
+
+  generate(description: string, model: Model, prompt: string, references: PlannedImage[] = []): number {
+    const request = buildGenerateRequest(prompt, model, this.config, references.map((r) => r.buffer));
+    return this.add({ action: 'generate', description, model, request: summarize(request, references) });
+  }
+
+  edit(description: string, model: Model, image: PlannedImage, prompt: string): number {
+    const request = buildEditRequest(image.buffer, prompt, model, this.config);
+    return this.add({ action: 'edit', description, model, request: summarize(request, [image]) });
+  }
+
+  local(description: string): number {
+    return this.add({ action: 'local', description });
+  }
+
+  private add(step: Omit<PlannedStep, 'step'>): number {
+    const number = this.steps.length + 1;
+    this.steps.push({ step: number, ...step });
+    return number;
+  }
+}
+
+/**
+ * Plan a job without running it. Input and reference images are read so
+ * their sizes can be reported; nothing is sent or written.
+ */
+export async function planJob(command: JobCommand, parsed: ParsedArgs): Promise<DryRunPlan> {
+  const imageConfig = buildImageConfig(parsed);
+  const provider = getProvider(parsed.provider);
+  const brand = parsed.brand ? getBrand(parsed.brand) : undefined;
+  const method = parsed.method || 'pro-pro';
+  const planner = new Planner(imageConfig);
+
+  const referencePaths = [...(brand?.references || []), ...(parsed.referenceImages || [])];
+  const references = await Promise.all(referencePaths.map((path) => fileImage(path, 'Reference image')));
+  const checkModel = (model: Model) =>
+    assertCapabilities(provider, model, imageConfig, references.map((r) => r.buffer));
+
+  switch (command) {
+    case 'edit': {
+      const model = parsed.model || 'nano-banana-pro';
+      const input = await fileImage(requireInputImage(parsed), 'Input file');
+      let prompt = appendStyle(requirePrompt(parsed), brand?.style);
+      const inpaint = buildInpaintOptions(parsed);
+      if (hasInpaintOptions(inpaint)) {
+        const { width = 0, height = 0 } = await sharp(input.buffer).metadata();
+        const region = maskBounds(await loadMask(inpaint, width, height), width, height);
+        if (!region) {
+          throw new Error('Mask has no editable (white) pixels');
+        }
+        prompt = wrapPromptForRegion(prompt, region, width, height);
+      }
+      planner.edit('Edit the input image', model, input, prompt);
+      if (hasInpaintOptions(inpaint)) {
+        planner.local('Composite the edit back into the input through the mask');
+      }
+      break;
+    }
+
+    case 'edit-transparent': {
+      const input = await fileImage(requireInputImage(parsed), 'Input file');
+      if (method === 'local') {
+        planner.local(`Remove the background locally (${parsed.localMode || 'global'} mode)`);
+        break;
+      }
+      const { edit: editModel } = getModelsForMethod(method);
+      const white = planner.edit('Edit the input onto a white background', editModel, input, REMOVE_BG_TO_WHITE_PROMPT);
+      const black = planner.edit('Edit the input onto a black background', editModel, input, REMOVE_BG_TO_BLACK_PROMPT);
+      planner.local(`Extract alpha from steps ${white} and ${black} (difference matting)`);
+      break;
+    }
+
+    case 'transparent':
+    case 'transparent-icon':
+    case 'transparent-logo':
+    case 'transparent-ui': {
+      const { generate: genModel, edit: editModel } = getModelsForMethod(method);
+      // --resume starts from an existing white pass
+      if (parsed.resume) {
+        const white = await fileImage(parsed.resume, 'Resume image');
+        const black = planner.edit('Edit the resumed white pass onto a black background', editModel, white, EDIT_TO_BLACK_PROMPT);
+        planner.local(`Extract alpha from ${basename(parsed.resume)} and step ${black} (difference matting)`);
+        break;
+      }
+      checkModel(genModel);
+      const wrapped = appendStyle(wrapPromptForType(requirePrompt(parsed), getImageType(command, parsed), parsed.vars), brand?.style);
+      const white = planner.generate('Generate on a white background', genModel, appendWhiteBackground(wrapped), references);
+      const black = planner.edit('Edit the white pass onto a black background', editModel, stepOutput(white), EDIT_TO_BLACK_PROMPT);
+      planner.local(`Extract alpha from steps ${white} and ${black} (difference matting)`);
+      break;
+    }
+
+    default: {
+      const model = parsed.model || 'nano-banana-pro';
+      checkModel(model);
+      const wrapped = appendStyle(wrapPromptForType(requirePrompt(parsed), getImageType(command, parsed), parsed.vars), brand?.style);
+      planner.generate('Generate the image', model, wrapped, references);
+    }
+  }
+
+  if (hasMatteOptions(buildMatteOptions(parsed))) {
+    planner.local('Refine the matte');
+  }
+  if (brand?.palette?.length) {
+    const mode = parsed.paletteMode || brand.paletteMode || 'off';
+    planner.local(mode === 'off' ? 'Measure palette adherence' : `Map the output onto the brand palette (${mode})`);
+  }
+  if (parsed.exportIcons) {
+    planner.local('Export the icon set');
+  }
+
+  const count = parsed.count ?? 1;
+  const overruns = checkBudget(getJobCost(command, parsed).total);
+  return {
+    dryRun: true,
+    command,
+    provider: provider.name,
+    outputDir: resolve(requireOutputDir(parsed)),
+    variants: count > 1 ? count : undefined,
+    steps: planner.steps,
+    cost: estimateJobCost(command, parsed),
+    budgetExceeded: overruns.length > 0 ? overruns : undefined,
+  };
+}
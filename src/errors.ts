@@ -0,0 +1,216 @@
+/**
+ * Typed errors for Gemini API failures
+ */
+
+export type ErrorCode =
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXHAUSTED'
+  | 'AUTH_INVALID'
+  | 'SAFETY_BLOCKED'
+  | 'NO_IMAGE'
+  | 'NETWORK'
+  | 'SERVER_ERROR'
+  | 'API_ERROR'
+  | 'BUDGET_EXCEEDED'
+  | 'ABORTED';
+
+/**
+ * Base class for classified API errors. `retryable` marks transient
+ * failures that are worth another attempt.
+ */
+export class BananaError extends Error {
+  readonly code: ErrorCode;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    options: { retryable?: boolean; status?: number; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class RateLimitedError extends BananaError {
+  constructor(message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super('RATE_LIMITED', message, { ...options, retryable: true });
+  }
+}
+
+export class QuotaExhaustedError extends BananaError {
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super('QUOTA_EXHAUSTED', message, options);
+  }
+}
+
+export class AuthInvalidError extends BananaError {
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super('AUTH_INVALID', message, options);
+  }
+}
+
+export class SafetyBlockedError extends BananaError {
+  readonly reason: string;
+
+  constructor(reason: string, message?: string) {
+    super('SAFETY_BLOCKED', message || `Request blocked by safety filters (${reason})`);
+    this.reason = reason;
+  }
+}
+
+export class NoImageError extends BananaError {
+  constructor(message: string = 'No image returned from API') {
+    super('NO_IMAGE', message);
+  }
+}
+
+export class NetworkError extends BananaError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super('NETWORK', message, { ...options, retryable: true });
+  }
+}
+
+export class ServerError extends BananaError {
+  constructor(message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super('SERVER_ERROR', message, { ...options, retryable: true });
+  }
+}
+
+export class BudgetExceededError extends BananaError {
+  constructor(message: string) {
+    super('BUDGET_EXCEEDED', message);
+  }
+}
+
+export class AbortedError extends BananaError {
+  constructor(message: string = 'Operation aborted') {
+    super('ABORTED', message);
+  }
+}
+
+/**
+ * Throw an AbortedError if `signal` has fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortedError();
+  }
+}
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_SOCKET', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT',
+]);
+
+interface ApiErrorBody {
+  error?: {
+    message?: string;
+    status?: string;
+    details?: { '@type'?: string; retryDelay?: string; violations?: { quotaId?: string }[] }[];
+  };
+}
+
+/**
+ * The SDK's ApiError message is the JSON error body from the API
+ */
+function parseApiErrorBody(message: string): ApiErrorBody | null {
+  try {
+    return JSON.parse(message) as ApiErrorBody;
+  } catch {
+    const jsonStart = message.indexOf('{');
+    if (jsonStart < 0) return null;
+    try {
+      return JSON.parse(message.slice(jsonStart)) as ApiErrorBody;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Read a google.rpc.RetryInfo hint such as `"retryDelay": "13s"`
+ */
+function parseRetryDelay(body: ApiErrorBody | null): number | undefined {
+  for (const detail of body?.error?.details || []) {
+    const match = detail.retryDelay?.match(/^(\d+(?:\.\d+)?)s$/);
+    if (match) {
+      return Math.round(parseFloat(match[1]) * 1000);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Daily quotas (or a zero limit on the current tier) won't recover by waiting
+ */
+function isHardQuota(body: ApiErrorBody | null, message: string): boolean {
+  for (const detail of body?.error?.details || []) {
+    for (const violation of detail.violations || []) {
+      if (violation.quotaId && /PerDay/i.test(violation.quotaId)) {
+        return true;
+      }
+    }
+  }
+  return /limit: 0\b|billing/i.test(message);
+}
+
+/**
+ * Convert any error thrown while calling the API into a BananaError
+ */
+export function classifyError(err: unknown): BananaError {
+  if (err instanceof BananaError) {
+    return err;
+  }
+
+  const rawMessage = err instanceof Error ? err.message : String(err);
+  const status = typeof (err as { status?: unknown })?.status === 'number'
+    ? (err as { status: number }).status
+    : undefined;
+
+  if (status !== undefined) {
+    const body = parseApiErrorBody(rawMessage);
+    const message = body?.error?.message || rawMessage;
+    const retryAfterMs = parseRetryDelay(body);
+
+    if (status === 429) {
+      if (isHardQuota(body, message)) {
+        return new QuotaExhaustedError(message, { status, cause: err });
+      }
+      return new RateLimitedError(message, { status, retryAfterMs, cause: err });
+    }
+    if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID/i.test(message)) {
+      return new AuthInvalidError(message, { status, cause: err });
+    }
+    if (status >= 500) {
+      return new ServerError(message, { status, retryAfterMs, cause: err });
+    }
+    return new BananaError('API_ERROR', message, { status, cause: err });
+  }
+
+  // fetch() failures surface as TypeError('fetch failed') with the socket error as cause
+  const cause = (err as { cause?: { code?: string } })?.cause;
+  const code = cause?.code || (err as { code?: string })?.code;
+  if ((code && NETWORK_ERROR_CODES.has(code)) || rawMessage === 'fetch failed') {
+    return new NetworkError(`Network error: ${code || rawMessage}`, { cause: err });
+  }
+
+  return new BananaError('API_ERROR', rawMessage, { cause: err });
+}
+
+/**
+ * JSON-friendly error description. Errors that aren't BananaErrors
+ * (bad arguments, missing files, ...) get the generic `ERROR` code.
+ */
+export function describeError(err: unknown): { code: string; message: string } {
+  if (err instanceof BananaError) {
+    return { code: err.code, message: err.message };
+  }
+  return { code: 'ERROR', message: err instanceof Error ? err.message : String(err) };
+}
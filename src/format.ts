@@ -0,0 +1,152 @@
+/**
+ * Output encoding - format conversion, quality/effort and file size caps
+ */
+
+import sharp from 'sharp';
+import { writeFileSync } from 'fs';
+
+export type OutputFormat = 'png' | 'webp' | 'avif' | 'jpeg';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['png', 'webp', 'avif', 'jpeg'];
+
+export interface EncodeOptions {
+  format?: OutputFormat; // Default: keep the source format (PNG for images we render)
+  quality?: number;      // 1-100; lossy formats, or palette PNG
+  effort?: number;       // CPU effort 0-10, mapped onto the format's range
+  maxBytes?: number;     // Lower quality until the output fits
+}
+
+export interface EncodedImage {
+  buffer: Buffer;
+  format: OutputFormat;
+  overLimit?: boolean;   // maxBytes couldn't be met even at the lowest quality
+}
+
+const EXTENSIONS: Record<OutputFormat, string> = {
+  png: '.png',
+  webp: '.webp',
+  avif: '.avif',
+  jpeg: '.jpg',
+};
+
+const DEFAULT_QUALITY = 90;
+const MIN_QUALITY = 10;
+const QUALITY_STEP = 10;
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as string[]).includes(value);
+}
+
+export function formatSupportsAlpha(format: OutputFormat): boolean {
+  return format !== 'jpeg';
+}
+
+export function extensionFor(format: OutputFormat): string {
+  return EXTENSIONS[format];
+}
+
+/**
+ * Swap a filename's extension for the one matching `format`
+ */
+export function withExtension(filename: string, format: OutputFormat): string {
+  return filename.replace(/\.(png|webp|avif|jpe?g)$/i, '') + extensionFor(format);
+}
+
+function hasEncodeOptions(options?: EncodeOptions): options is EncodeOptions {
+  return !!options && (
+    options.format !== undefined ||
+    options.quality !== undefined ||
+    options.effort !== undefined ||
+    options.maxBytes !== undefined
+  );
+}
+
+/**
+ * Format of encoded image bytes, or null if it isn't one we write
+ */
+export async function detectFormat(buffer: Buffer): Promise<OutputFormat | null> {
+  try {
+    const { format, compression } = await sharp(buffer).metadata();
+    if (format === 'png' || format === 'webp' || format === 'jpeg') return format;
+    if (format === 'heif' && compression === 'av1') return 'avif';
+  } catch {
+    // Not an image sharp understands
+  }
+  return null;
+}
+
+function scaleEffort(effort: number | undefined, min: number, max: number): number | undefined {
+  return effort === undefined ? undefined : Math.round(min + (Math.min(10, Math.max(0, effort)) / 10) * (max - min));
+}
+
+function encodeOnce(image: sharp.Sharp, format: OutputFormat, quality: number | undefined, effort: number | undefined): Promise<Buffer> {
+  const pipeline = image.clone();
+  switch (format) {
+    case 'png':
+      // PNG is lossless; quality only applies to palette quantization
+      return pipeline.png({
+        palette: quality !== undefined,
+        quality,
+        effort: scaleEffort(effort, 1, 10),
+        compressionLevel: effort !== undefined ? scaleEffort(effort, 0, 9) : undefined,
+      }).toBuffer();
+    case 'webp':
+      return pipeline.webp({ quality, effort: scaleEffort(effort, 0, 6) }).toBuffer();
+    case 'avif':
+      return pipeline.avif({ quality, effort: scaleEffort(effort, 0, 9) }).toBuffer();
+    case 'jpeg':
+      // No alpha channel in JPEG
+      return pipeline.flatten({ background: '#ffffff' }).jpeg({ quality, mozjpeg: true }).toBuffer();
+  }
+}
+
+/**
+ * Encode an image. Encoded bytes without any encode options pass through
+ * untouched (only their format is detected); otherwise the image is
+ * converted, lowering quality step by step if a size cap is set.
+ */
+export async function encodeImage(input: Buffer | sharp.Sharp, options: EncodeOptions = {}): Promise<EncodedImage> {
+  const source = Buffer.isBuffer(input) ? await detectFormat(input) : null;
+  if (Buffer.isBuffer(input) && source && !hasEncodeOptions(options)) {
+    return { buffer: input, format: source };
+  }
+
+  const image = Buffer.isBuffer(input) ? sharp(input) : input;
+  const format = options.format || source || 'png';
+
+  if (!options.maxBytes) {
+    return { buffer: await encodeOnce(image, format, options.quality, options.effort), format };
+  }
+
+  // Lossless PNG first, then palette quality; lossy formats start at the requested quality
+  const start = options.quality ?? DEFAULT_QUALITY;
+  const qualities: (number | undefined)[] = format === 'png' && options.quality === undefined ? [undefined, start] : [start];
+  for (let quality = start - QUALITY_STEP; quality >= MIN_QUALITY; quality -= QUALITY_STEP) {
+    qualities.push(quality);
+  }
+
+  let smallest: Buffer | undefined;
+  for (const quality of qualities) {
+    const buffer = await encodeOnce(image, format, quality, options.effort);
+    if (buffer.length <= options.maxBytes) {
+      return { buffer, format };
+    }
+    if (!smallest || buffer.length < smallest.length) {
+      smallest = buffer;
+    }
+  }
+  return { buffer: smallest!, format, overLimit: true };
+}
+
+/**
+ * Encode and write an image, returning what was written
+ */
+export async function writeImage(
+  input: Buffer | sharp.Sharp,
+  outputPath: string,
+  options: EncodeOptions = {}
+): Promise<EncodedImage> {
+  const encoded = await encodeImage(input, options);
+  writeFileSync(outputPath, encoded.buffer);
+  return encoded;
+}
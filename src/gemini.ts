@@ -2,32 +2,67 @@
  * Gemini API wrapper for image generation and editing
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse, Content, Part } from '@google/genai';
 import { getApiKey } from './config.js';
+import { NoImageError, SafetyBlockedError } from './errors.js';
+import { RetryOptions, withRetry } from './retry.js';
+import { Usage, estimateImageCost, recordSpend, reserveSpend } from './spend.js';
+import {
+  ImageProvider,
+  ProviderCapabilities,
+  GenerateRequest,
+  EditRequest,
+  ChatRequest,
+  ChatResponse,
+  ConversationPart,
+} from './provider.js';
 
 export type Model = 'nano-banana' | 'nano-banana-pro';
 export type AspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '4:5' | '5:4' | '9:16' | '16:9' | '21:9';
 export type ImageSize = '1K' | '2K' | '4K';
 
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+export const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+
 const MODELS: Record<Model, string> = {
   'nano-banana': 'gemini-2.5-flash-image',
   'nano-banana-pro': 'gemini-3-pro-image-preview',
 };
 
+export const MODEL_NAMES = Object.keys(MODELS) as Model[];
+
+export function getModelId(model: Model): string {
+  return MODELS[model];
+}
+
 export interface ImageConfig {
   aspectRatio?: AspectRatio;
   imageSize?: ImageSize;
 }
 
-function getClient(): GoogleGenAI {
-  const apiKey = getApiKey();
-  return new GoogleGenAI({ apiKey });
+/**
+ * Per-call settings that aren't part of the request payload
+ */
+export interface CallOptions {
+  apiKey?: string;      // Default: resolved from env, profile or config
+  signal?: AbortSignal;
+}
+
+function getClient(apiKey?: string): GoogleGenAI {
+  return new GoogleGenAI({ apiKey: apiKey || getApiKey() });
+}
+
+/**
+ * Attach the abort signal, which the SDK takes in the request config
+ */
+function withSignal(request: GenerateContentParameters, signal?: AbortSignal): GenerateContentParameters {
+  return signal ? { ...request, config: { ...request.config, abortSignal: signal } } : request;
 }
 
 /**
  * Detect image mime type from buffer magic bytes
  */
-function detectMimeType(buffer: Buffer): string {
+export function detectMimeType(buffer: Buffer): string {
   // Check PNG signature: 89 50 4E 47 0D 0A 1A 0A
   if (buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4E && buffer[3] === 0x47) {
     return 'image/png';
@@ -49,93 +84,250 @@ function detectMimeType(buffer: Buffer): string {
   return 'image/png';
 }
 
-export async function generateImage(
+// Finish reasons that mean the output was withheld by safety filters
+const SAFETY_FINISH_REASONS = new Set([
+  'SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'RECITATION',
+  'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'IMAGE_RECITATION',
+]);
+
+/**
+ * Pull the first inline image out of a response, or throw a typed error
+ * explaining why there isn't one
+ */
+function extractImage(response: GenerateContentResponse): Buffer {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockedError(blockReason, response.promptFeedback?.blockReasonMessage);
+  }
+
+  const candidate = response.candidates?.[0];
+  for (const part of candidate?.content?.parts || []) {
+    if (part.inlineData?.data) {
+      return Buffer.from(part.inlineData.data, 'base64');
+    }
+  }
+
+  const finishReason = candidate?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.has(finishReason)) {
+    throw new SafetyBlockedError(finishReason);
+  }
+
+  // Models sometimes answer with text only; surface it to explain the failure
+  const text = (candidate?.content?.parts || [])
+    .map((part) => part.text)
+    .filter(Boolean)
+    .join(' ')
+    .trim();
+  throw new NoImageError(text ? `No image returned from API: ${text}` : undefined);
+}
+
+/**
+ * Token counts from a response's usage metadata, if it has any
+ */
+function extractUsage(response: GenerateContentResponse): Usage | undefined {
+  const metadata = response.usageMetadata;
+  if (!metadata) {
+    return undefined;
+  }
+  const imageTokens = (metadata.candidatesTokensDetails || [])
+    .filter((detail) => detail.modality === 'IMAGE')
+    .reduce((sum, detail) => sum + (detail.tokenCount || 0), 0);
+  const images = (response.candidates?.[0]?.content?.parts || [])
+    .filter((part) => part.inlineData?.data && !part.thought).length;
+  return {
+    inputTokens: metadata.promptTokenCount || 0,
+    outputTokens: metadata.candidatesTokenCount || 0,
+    imageTokens,
+    thoughtTokens: metadata.thoughtsTokenCount || 0,
+    images,
+  };
+}
+
+function buildConfig(config?: ImageConfig): GenerateContentParameters['config'] {
+  return {
+    responseModalities: ['TEXT', 'IMAGE'],
+    imageConfig: config ? {
+      aspectRatio: config.aspectRatio,
+      imageSize: config.imageSize,
+    } : undefined,
+  };
+}
+
+function inlineImage(buffer: Buffer): Part {
+  return {
+    inlineData: {
+      mimeType: detectMimeType(buffer),
+      data: buffer.toString('base64'),
+    },
+  };
+}
+
+/**
+ * Request payload for a generation, as sent to generateContent
+ */
+export function buildGenerateRequest(
   prompt: string,
   model: Model = 'nano-banana-pro',
   config?: ImageConfig,
   referenceImages?: Buffer[]
-): Promise<Buffer> {
-  const client = getClient();
-
-  // Build contents array with optional reference images
+): GenerateContentParameters {
   // Order: text prompt first, then images (per Gemini API docs)
-  const contents: any[] = [];
-
-  // Add the text prompt first
-  contents.push({ text: prompt });
-
-  // Add reference images after the prompt
-  if (referenceImages && referenceImages.length > 0) {
-    for (const imgBuffer of referenceImages) {
-      contents.push({
-        inlineData: {
-          mimeType: detectMimeType(imgBuffer),
-          data: imgBuffer.toString('base64'),
-        },
-      });
-    }
-  }
+  const contents: Part[] = [{ text: prompt }, ...(referenceImages || []).map(inlineImage)];
 
-  const response = await client.models.generateContent({
+  return {
     model: MODELS[model],
     contents: referenceImages && referenceImages.length > 0 ? contents : prompt,
-    config: {
-      responseModalities: ['TEXT', 'IMAGE'],
-      imageConfig: config ? {
-        aspectRatio: config.aspectRatio,
-        imageSize: config.imageSize,
-      } : undefined,
-    },
-  });
+    config: buildConfig(config),
+  };
+}
 
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if ((part as any).inlineData) {
-      const inlineData = (part as any).inlineData;
-      return Buffer.from(inlineData.data, 'base64');
-    }
-  }
+/**
+ * Request payload for an edit, as sent to generateContent
+ */
+export function buildEditRequest(
+  imageBuffer: Buffer,
+  prompt: string,
+  model: Model = 'nano-banana-pro',
+  config?: ImageConfig
+): GenerateContentParameters {
+  return {
+    model: MODELS[model],
+    contents: [inlineImage(imageBuffer), { text: prompt }],
+    config: buildConfig(config),
+  };
+}
 
-  throw new Error('No image returned from API');
+export async function generateImage(
+  prompt: string,
+  model: Model = 'nano-banana-pro',
+  config?: ImageConfig,
+  referenceImages?: Buffer[],
+  retry?: Partial<RetryOptions>,
+  options: CallOptions = {}
+): Promise<Buffer> {
+  const client = getClient(options.apiKey);
+  const request = withSignal(buildGenerateRequest(prompt, model, config, referenceImages), options.signal);
+  const release = reserveSpend(estimateImageCost(model, config?.imageSize));
+  try {
+    const response = await withRetry(() => client.models.generateContent(request), retry, options.signal);
+    recordSpend('generate', model, config?.imageSize, extractUsage(response));
+    return extractImage(response);
+  } finally {
+    release();
+  }
 }
 
 export async function editImage(
   imageBuffer: Buffer,
   prompt: string,
   model: Model = 'nano-banana-pro',
-  config?: ImageConfig
+  config?: ImageConfig,
+  retry?: Partial<RetryOptions>,
+  options: CallOptions = {}
 ): Promise<Buffer> {
-  const client = getClient();
-
-  const contents = [
-    {
-      inlineData: {
-        mimeType: detectMimeType(imageBuffer),
-        data: imageBuffer.toString('base64'),
-      },
-    },
-    { text: prompt },
-  ];
+  const client = getClient(options.apiKey);
+  const request = withSignal(buildEditRequest(imageBuffer, prompt, model, config), options.signal);
+  const release = reserveSpend(estimateImageCost(model, config?.imageSize));
+  try {
+    const response = await withRetry(() => client.models.generateContent(request), retry, options.signal);
+    recordSpend('edit', model, config?.imageSize, extractUsage(response));
+    return extractImage(response);
+  } finally {
+    release();
+  }
+}
 
-  const response = await client.models.generateContent({
-    model: MODELS[model],
-    contents: contents,
-    config: {
-      responseModalities: ['TEXT', 'IMAGE'],
-      imageConfig: config ? {
-        aspectRatio: config.aspectRatio,
-        imageSize: config.imageSize,
-      } : undefined,
-    },
-  });
+function toPart(part: ConversationPart): Part {
+  if (part.image) {
+    return {
+      ...inlineImage(part.image),
+      thoughtSignature: part.thoughtSignature,
+    };
+  }
+  return { text: part.text, thoughtSignature: part.thoughtSignature };
+}
 
+/**
+ * Continue a multi-turn conversation. The full history is sent on every
+ * request, so the model sees each earlier instruction and image.
+ */
+export async function chatImage(request: ChatRequest, apiKey?: string): Promise<ChatResponse> {
+  const client = getClient(apiKey);
+
+  const userParts: ConversationPart[] = request.image
+    ? [{ image: request.image }, { text: request.prompt }]
+    : [{ text: request.prompt }];
+  const contents: Content[] = [...request.history, { role: 'user', parts: userParts }].map((turn) => ({
+    role: turn.role,
+    parts: turn.parts.map(toPart),
+  }));
+
+  const release = reserveSpend(estimateImageCost(request.model, request.config?.imageSize));
+  let response: GenerateContentResponse;
+  try {
+    response = await withRetry(() => client.models.generateContent(withSignal({
+      model: MODELS[request.model],
+      contents,
+      config: buildConfig(request.config),
+    }, request.signal)), request.retry, request.signal);
+    recordSpend('chat', request.model, request.config?.imageSize, extractUsage(response));
+  } finally {
+    release();
+  }
+  const image = extractImage(response);
+
+  // Thought parts are the model's scratch work; only the answer is replayed
+  const parts: ConversationPart[] = [];
   for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if ((part as any).inlineData) {
-      const inlineData = (part as any).inlineData;
-      return Buffer.from(inlineData.data, 'base64');
+    if (part.thought) continue;
+    if (part.inlineData?.data) {
+      parts.push({ image: Buffer.from(part.inlineData.data, 'base64'), thoughtSignature: part.thoughtSignature });
+    } else if (part.text !== undefined) {
+      parts.push({ text: part.text, thoughtSignature: part.thoughtSignature });
     }
   }
 
-  throw new Error('No image returned from API');
+  return { image, turn: { role: 'model', parts } };
+}
+
+const CAPABILITIES: Record<Model, ProviderCapabilities> = {
+  'nano-banana': { maxReferenceImages: 3, supportedSizes: ['1K'], supportedAspectRatios: ASPECT_RATIOS },
+  'nano-banana-pro': { maxReferenceImages: 14, supportedSizes: IMAGE_SIZES, supportedAspectRatios: ASPECT_RATIOS },
+};
+
+/**
+ * ImageProvider backed by the Gemini API. Without an explicit key, the key
+ * is resolved on every call.
+ */
+export class GeminiProvider implements ImageProvider {
+  readonly name = 'gemini' as const;
+  private readonly apiKey?: string;
+
+  constructor(options: { apiKey?: string } = {}) {
+    this.apiKey = options.apiKey;
+  }
+
+  capabilities(model: Model): ProviderCapabilities {
+    return CAPABILITIES[model];
+  }
+
+  generate(request: GenerateRequest): Promise<Buffer> {
+    return generateImage(request.prompt, request.model, request.config, request.referenceImages, request.retry, {
+      apiKey: this.apiKey,
+      signal: request.signal,
+    });
+  }
+
+  edit(request: EditRequest): Promise<Buffer> {
+    return editImage(request.image, request.prompt, request.model, request.config, request.retry, {
+      apiKey: this.apiKey,
+      signal: request.signal,
+    });
+  }
+
+  chat(request: ChatRequest): Promise<ChatResponse> {
+    return chatImage(request, this.apiKey);
+  }
 }
 
 export function getModelDisplayName(model: Model): string {
@@ -2,10 +2,18 @@
  * Image generation and editing operations
  */
 
+import sharp from 'sharp';
 import { existsSync, readFileSync, writeFileSync } from 'fs';
 import { join, resolve, basename } from 'path';
-import { generateImage, editImage, Model, ImageConfig } from './gemini.js';
-import { ImageType, ensureDir, wrapPromptForType, generateFilename } from './utils.js';
+import { Model, ImageConfig } from './gemini.js';
+import { ImageProvider, getProvider, assertCapabilities } from './provider.js';
+import { RetryOptions } from './retry.js';
+import { CacheOptions, cachedGenerate, cachedEdit, isCacheEnabled } from './cache.js';
+import { EncodeOptions, OutputFormat, encodeImage, extensionFor, withExtension } from './format.js';
+import { appendStyle } from './prompts.js';
+import { InpaintOptions, Region, hasInpaintOptions, loadMask, maskBounds, wrapPromptForRegion, compositeInpaint } from './inpaint.js';
+import { ProgressListener, StepTracker } from './progress.js';
+import { ImageType, ensureDir, wrapPromptForType, generateFilename, uniqueTimestamp } from './utils.js';
 
 export { ImageType };
 
@@ -24,36 +32,93 @@ export interface GenerateResult {
   path: string;
   model: string;
   prompt: string;
+  cached?: boolean; // Present when the response cache is enabled
+  overSizeLimit?: boolean; // Present when --max-size couldn't be met
+}
+
+export interface GenerateOptions {
+  model?: Model;
+  type?: ImageType;
+  vars?: Record<string, string>;
+  style?: string; // Appended to the wrapped prompt (brand kits)
+  imageConfig?: ImageConfig;
+  referenceImages?: Buffer[];
+  retry?: Partial<RetryOptions>;
+  provider?: ImageProvider;
+  cache?: CacheOptions;
+  variant?: number;
+  encoding?: EncodeOptions;
+  signal?: AbortSignal;
+  onProgress?: ProgressListener;
+}
+
+/**
+ * An encoded image in memory, before anything is written
+ */
+export interface ImageOutput {
+  buffer: Buffer;
+  format: OutputFormat;
+  model: string;
+  prompt: string;
+  cached?: boolean;
+  overSizeLimit?: boolean;
+}
+
+/**
+ * Generate an image and encode it, without writing it anywhere
+ */
+export async function generateBuffer(prompt: string, options: GenerateOptions = {}): Promise<ImageOutput> {
+  const model = options.model || 'nano-banana-pro';
+  const type = options.type || 'image';
+  const provider = options.provider || getProvider();
+  const wrappedPrompt = appendStyle(wrapPromptForType(prompt, type, options.vars), options.style);
+
+  assertCapabilities(provider, model, options.imageConfig, options.referenceImages);
+
+  const { encoded, cached } = await new StepTracker(options.onProgress, 1).run('generate', async () => {
+    const response = await cachedGenerate(provider, {
+      prompt: wrappedPrompt,
+      model,
+      config: options.imageConfig,
+      referenceImages: options.referenceImages,
+      retry: options.retry,
+      variant: options.variant,
+      signal: options.signal,
+    }, options.cache);
+    return { encoded: await encodeImage(response.buffer, options.encoding), cached: response.cached };
+  }, (result) => ({ cached: isCacheEnabled(options.cache) ? result.cached : undefined }));
+  return {
+    buffer: encoded.buffer,
+    format: encoded.format,
+    model,
+    prompt: wrappedPrompt,
+    cached: isCacheEnabled(options.cache) ? cached : undefined,
+    overSizeLimit: encoded.overLimit,
+  };
 }
 
 export async function generate(
   prompt: string,
   outputDir: string,
-  options: {
-    model?: Model;
-    filename?: string;
-    type?: ImageType;
-    imageConfig?: ImageConfig;
-    referenceImages?: Buffer[];
-  } = {}
+  options: GenerateOptions & { filename?: string } = {}
 ): Promise<GenerateResult> {
-  const model = options.model || 'nano-banana-pro';
-  const type = options.type || 'image';
-  const wrappedPrompt = wrapPromptForType(prompt, type);
-
+  const output = await generateBuffer(prompt, options);
   ensureDir(outputDir);
 
-  const imageBuffer = await generateImage(wrappedPrompt, model, options.imageConfig, options.referenceImages);
-
-  const filename = options.filename || generateFilename(type);
+  // The API may return JPEG bytes; the extension follows what is actually written
+  const filename = options.filename
+    ? withExtension(options.filename, output.format)
+    : generateFilename(options.type || 'image', extensionFor(output.format));
   const outputPath = resolve(join(outputDir, filename));
 
-  writeFileSync(outputPath, imageBuffer);
+  writeFileSync(outputPath, output.buffer);
 
   return {
     path: outputPath,
-    model,
-    prompt: wrappedPrompt,
+    model: output.model,
+    prompt: output.prompt,
+    cached: output.cached,
+    overSizeLimit: output.overSizeLimit,
   };
 }
 
@@ -62,39 +127,100 @@ export interface EditResult {
   model: string;
   prompt: string;
   input: string;
+  region?: Region; // Present for --mask/--region edits: bounds of the editable area
+  cached?: boolean; // Present when the response cache is enabled
+  overSizeLimit?: boolean; // Present when --max-size couldn't be met
+}
+
+export interface EditOptions {
+  model?: Model;
+  imageConfig?: ImageConfig;
+  retry?: Partial<RetryOptions>;
+  provider?: ImageProvider;
+  cache?: CacheOptions;
+  encoding?: EncodeOptions;
+  inpaint?: InpaintOptions;
+  style?: string; // Appended to the prompt (brand kits)
+  signal?: AbortSignal;
+  onProgress?: ProgressListener;
+}
+
+/**
+ * Edit an image held in memory and encode the result, without writing it
+ */
+export async function editBuffer(
+  inputBuffer: Buffer,
+  prompt: string,
+  options: EditOptions = {}
+): Promise<ImageOutput & { region?: Region }> {
+  const model = options.model || 'nano-banana-pro';
+  const provider = options.provider || getProvider();
+
+  // Masked edits: describe the region to the model, then composite its output back
+  let mask: Uint8Array | undefined;
+  let region: Region | undefined;
+  let sentPrompt = appendStyle(prompt, options.style);
+  if (hasInpaintOptions(options.inpaint)) {
+    const { width = 0, height = 0 } = await sharp(inputBuffer).metadata();
+    mask = await loadMask(options.inpaint, width, height);
+    region = maskBounds(mask, width, height) ?? undefined;
+    if (!region) {
+      throw new Error('Mask has no editable (white) pixels');
+    }
+    sentPrompt = wrapPromptForRegion(sentPrompt, region, width, height);
+  }
+
+  const { encoded, cached } = await new StepTracker(options.onProgress, 1).run('edit', async () => {
+    const response = await cachedEdit(provider, {
+      image: inputBuffer,
+      prompt: sentPrompt,
+      model,
+      config: options.imageConfig,
+      retry: options.retry,
+      signal: options.signal,
+    }, options.cache);
+    const outputBuffer = mask
+      ? await compositeInpaint(inputBuffer, response.buffer, mask, options.inpaint?.feather)
+      : response.buffer;
+    return { encoded: await encodeImage(outputBuffer, options.encoding), cached: response.cached };
+  }, (result) => ({ cached: isCacheEnabled(options.cache) ? result.cached : undefined }));
+  return {
+    buffer: encoded.buffer,
+    format: encoded.format,
+    model,
+    prompt: sentPrompt,
+    region,
+    cached: isCacheEnabled(options.cache) ? cached : undefined,
+    overSizeLimit: encoded.overLimit,
+  };
 }
 
 export async function edit(
   inputPath: string,
   prompt: string,
   outputDir: string,
-  options: {
-    model?: Model;
-    filename?: string;
-    imageConfig?: ImageConfig;
-  } = {}
+  options: EditOptions & { filename?: string } = {}
 ): Promise<EditResult> {
-  const model = options.model || 'nano-banana-pro';
-
   if (!existsSync(inputPath)) {
     throw new Error(`Input file not found: ${inputPath}`);
   }
 
   ensureDir(outputDir);
-
-  const inputBuffer = readFileSync(inputPath);
-  const outputBuffer = await editImage(inputBuffer, prompt, model, options.imageConfig);
+  const output = await editBuffer(readFileSync(inputPath), prompt, options);
 
   const inputName = basename(inputPath, '.png').replace(/\.[^.]+$/, '');
-  const filename = options.filename || `${inputName}_edited_${Date.now()}.png`;
+  const filename = withExtension(options.filename || `${inputName}_edited_${uniqueTimestamp()}`, output.format);
   const outputPath = resolve(join(outputDir, filename));
 
-  writeFileSync(outputPath, outputBuffer);
+  writeFileSync(outputPath, output.buffer);
 
   return {
     path: outputPath,
-    model,
-    prompt,
+    model: output.model,
+    prompt: output.prompt,
     input: resolve(inputPath),
+    region: output.region,
+    cached: output.cached,
+    overSizeLimit: output.overSizeLimit,
   };
 }
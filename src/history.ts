@@ -0,0 +1,200 @@
+/**
+ * Generation history - an append-only JSONL ledger of every job run
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { getConfigDir } from './config.js';
+import { ParsedArgs, buildImageConfig } from './args.js';
+import { ImageConfig } from './gemini.js';
+import { TransparentMethod } from './alpha.js';
+import { ProviderName, resolveProviderName } from './provider.js';
+import { ensureDir } from './utils.js';
+
+export interface HistoryFile {
+  path?: string;         // Absent for images passed to the library as Buffers
+  sha256: string | null; // null if the file couldn't be read
+}
+
+export interface HistoryEntry {
+  id: string;
+  timestamp: string;
+  command: string;
+  status: 'succeeded' | 'failed';
+  args: ParsedArgs; // Normalized arguments, enough to replay the job
+  prompt?: string;  // Prompt as sent to the model (wrapped for type)
+  model: string;
+  method?: TransparentMethod;
+  provider: ProviderName;
+  imageConfig?: ImageConfig;
+  input?: HistoryFile;
+  references: HistoryFile[];
+  outputs: string[];
+  intermediates?: { white: string; black: string };
+  durationMs: number;
+  estimatedCost: string;
+  error?: { code: string; message: string };
+}
+
+export interface HistoryFilter {
+  command?: string;
+  since?: Date;
+  until?: Date;
+  text?: string;
+  limit?: number;
+}
+
+export function getHistoryPath(): string {
+  return join(getConfigDir(), 'history.jsonl');
+}
+
+export function hashFile(path: string): HistoryFile {
+  try {
+    return { path, sha256: createHash('sha256').update(readFileSync(path)).digest('hex') };
+  } catch {
+    return { path, sha256: null };
+  }
+}
+
+export function hashBuffer(buffer: Buffer): HistoryFile {
+  return { sha256: createHash('sha256').update(buffer).digest('hex') };
+}
+
+/**
+ * Arguments worth replaying, with paths made absolute so a rerun works
+ * from any directory. One-off flags (--open, --cost, --refresh, --progress)
+ * are dropped, as is a variant's indexed name, so rerunning a variant
+ * writes a new file instead of overwriting it.
+ */
+export function normalizeArgs(parsed: ParsedArgs): ParsedArgs {
+  const { open: _open, showCost: _showCost, concurrency: _concurrency, refreshCache: _refresh, overBudget: _overBudget, progress: _progress, variant, ...rest } = parsed;
+  return {
+    ...rest,
+    name: variant === undefined ? rest.name : undefined,
+    outputDir: rest.outputDir ? resolve(rest.outputDir) : undefined,
+    inputImage: rest.inputImage ? resolve(rest.inputImage) : undefined,
+    mask: rest.mask ? resolve(rest.mask) : undefined,
+    resume: rest.resume ? resolve(rest.resume) : undefined,
+    referenceImages: rest.referenceImages?.map((p) => resolve(p)),
+  };
+}
+
+/**
+ * Build a ledger entry for a job that just finished (or failed)
+ */
+export function createHistoryEntry(
+  command: string,
+  parsed: ParsedArgs,
+  details: {
+    status: 'succeeded' | 'failed';
+    model: string;
+    estimatedCost: string;
+    durationMs: number;
+    method?: TransparentMethod; // Resolved method, when the command has one
+    prompt?: string;
+    outputs?: string[];
+    intermediates?: { white: string; black: string };
+    input?: HistoryFile;        // Default: hashed from args
+    references?: HistoryFile[]; // Default: hashed from args
+    error?: { code: string; message: string };
+  }
+): HistoryEntry {
+  const args = normalizeArgs(parsed);
+  // A resumed transparent run's input is the white pass it reused
+  const input = args.inputImage || args.resume;
+  return {
+    id: randomBytes(4).toString('hex'),
+    timestamp: new Date().toISOString(),
+    command,
+    status: details.status,
+    args,
+    prompt: details.prompt ?? args.prompt,
+    model: details.model,
+    method: details.method ?? args.method,
+    provider: resolveProviderName(args.provider),
+    imageConfig: buildImageConfig(args),
+    input: details.input ?? (input ? hashFile(input) : undefined),
+    references: details.references ?? (args.referenceImages || []).map(hashFile),
+    outputs: details.outputs || [],
+    intermediates: details.intermediates,
+    durationMs: details.durationMs,
+    estimatedCost: details.estimatedCost,
+    error: details.error,
+  };
+}
+
+/**
+ * Append an entry to the ledger. History is best-effort: a write failure
+ * never fails the job that produced it.
+ */
+export function appendHistory(entry: HistoryEntry): void {
+  try {
+    ensureDir(getConfigDir());
+    appendFileSync(getHistoryPath(), JSON.stringify(entry) + '\n');
+  } catch {
+    // Ignore history write errors
+  }
+}
+
+export function loadHistory(): HistoryEntry[] {
+  const path = getHistoryPath();
+  if (!existsSync(path)) {
+    return [];
+  }
+  const entries: HistoryEntry[] = [];
+  for (const line of readFileSync(path, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as HistoryEntry);
+    } catch {
+      // Skip corrupt lines
+    }
+  }
+  return entries;
+}
+
+/**
+ * Matching entries, most recent first
+ */
+export function listHistory(filter: HistoryFilter = {}): HistoryEntry[] {
+  const text = filter.text?.toLowerCase();
+  const matches = loadHistory().filter((entry) => {
+    const time = new Date(entry.timestamp);
+    if (filter.command && entry.command !== filter.command) return false;
+    if (filter.since && time < filter.since) return false;
+    if (filter.until && time > filter.until) return false;
+    if (text) {
+      const haystack = [entry.prompt, entry.args.prompt, ...entry.outputs].join(' ').toLowerCase();
+      if (!haystack.includes(text)) return false;
+    }
+    return true;
+  });
+  matches.reverse();
+  return filter.limit ? matches.slice(0, filter.limit) : matches;
+}
+
+/**
+ * Find an entry by id or unique id prefix
+ */
+export function findHistoryEntry(id: string): HistoryEntry {
+  const matches = loadHistory().filter((entry) => entry.id.startsWith(id));
+  if (matches.length === 0) {
+    throw new Error(`History entry not found: ${id}`);
+  }
+  if (matches.length > 1 && !matches.some((entry) => entry.id === id)) {
+    throw new Error(`Ambiguous history id: ${id} matches ${matches.length} entries`);
+  }
+  return matches.find((entry) => entry.id === id) || matches[0];
+}
+
+/**
+ * Inputs whose content changed since the entry was recorded
+ */
+export function changedInputs(entry: HistoryEntry): string[] {
+  const files = entry.input ? [entry.input, ...entry.references] : entry.references;
+  return files
+    .flatMap((file) => (file.path !== undefined ? [{ path: file.path, sha256: file.sha256 }] : []))
+    .filter((file) => file.sha256 !== null && hashFile(file.path).sha256 !== file.sha256)
+    .map((file) => file.path);
+}
@@ -0,0 +1,313 @@
+/**
+ * Platform icon set export - iOS, Android, web (favicon/PWA) and macOS
+ */
+
+import sharp from 'sharp';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { ensureDir, parseColor } from './utils.js';
+
+export type IconPlatform = 'ios' | 'android' | 'web' | 'macos';
+
+export const ICON_PLATFORMS: IconPlatform[] = ['ios', 'android', 'web', 'macos'];
+
+// Largest image each platform needs
+const LARGEST_TARGET: Record<IconPlatform, number> = {
+  ios: 1024,     // App Store marketing icon
+  android: 432,  // xxxhdpi adaptive layer
+  web: 512,      // PWA icon
+  macos: 1024,   // 512@2x
+};
+
+// Safe-zone insets, as a fraction of the icon size on each side
+const ANDROID_ADAPTIVE_INSET = (108 - 66) / 2 / 108; // Content must fit the central 66dp of 108dp
+const PWA_MASKABLE_INSET = 0.1;                      // Maskable safe zone is the central 80%
+const MACOS_INSET = 100 / 1024;                      // Apple's macOS grid leaves ~100px at 1024
+
+type RGB = { r: number; g: number; b: number };
+
+export interface IconExportResult {
+  source: string;
+  outputDir: string;
+  platforms: Partial<Record<IconPlatform, string>>;
+  files: string[];
+  warnings: string[];
+}
+
+interface RenderOptions {
+  inset?: number;        // Fraction of the size left empty on each side
+  background?: RGB;      // Flatten onto this color (platforms that forbid alpha)
+  circle?: boolean;      // Mask to a circle (Android round icons)
+}
+
+async function renderIcon(source: Buffer, size: number, options: RenderOptions = {}): Promise<Buffer> {
+  const inner = Math.max(1, Math.round(size * (1 - 2 * (options.inset ?? 0))));
+  const content = await sharp(source)
+    .resize(inner, inner, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .png()
+    .toBuffer();
+
+  let image = sharp({
+    create: { width: size, height: size, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+  }).composite([{ input: content, gravity: 'center' }]);
+
+  if (options.circle) {
+    const mask = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}"><circle cx="${size / 2}" cy="${size / 2}" r="${size / 2}"/></svg>`;
+    image = sharp(await image.png().toBuffer()).composite([{ input: Buffer.from(mask), blend: 'dest-in' }]);
+  }
+  if (options.background) {
+    image = sharp(await image.png().toBuffer()).flatten({ background: options.background });
+  }
+  return image.png().toBuffer();
+}
+
+function solidColor(size: number, color: RGB): Promise<Buffer> {
+  return sharp({ create: { width: size, height: size, channels: 3, background: color } }).png().toBuffer();
+}
+
+/**
+ * ICO container with PNG-encoded entries (supported since Windows Vista
+ * and by every current browser)
+ */
+export function buildIco(images: { size: number; data: Buffer }[]): Buffer {
+  const header = Buffer.alloc(6);
+  header.writeUInt16LE(0, 0); // Reserved
+  header.writeUInt16LE(1, 2); // Type: icon
+  header.writeUInt16LE(images.length, 4);
+
+  const directory = Buffer.alloc(16 * images.length);
+  let offset = header.length + directory.length;
+  images.forEach((image, i) => {
+    const entry = i * 16;
+    directory.writeUInt8(image.size >= 256 ? 0 : image.size, entry);     // Width (0 = 256)
+    directory.writeUInt8(image.size >= 256 ? 0 : image.size, entry + 1); // Height
+    directory.writeUInt8(0, entry + 2);  // Palette size
+    directory.writeUInt8(0, entry + 3);  // Reserved
+    directory.writeUInt16LE(1, entry + 4);  // Color planes
+    directory.writeUInt16LE(32, entry + 6); // Bits per pixel
+    directory.writeUInt32LE(image.data.length, entry + 8);
+    directory.writeUInt32LE(offset, entry + 12);
+    offset += image.data.length;
+  });
+
+  return Buffer.concat([header, directory, ...images.map((image) => image.data)]);
+}
+
+/**
+ * ICNS container with PNG-encoded entries
+ */
+export function buildIcns(entries: { type: string; data: Buffer }[]): Buffer {
+  const chunks = entries.map((entry) => {
+    const header = Buffer.alloc(8);
+    header.write(entry.type, 0, 'ascii');
+    header.writeUInt32BE(entry.data.length + 8, 4);
+    return Buffer.concat([header, entry.data]);
+  });
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(8);
+  header.write('icns', 0, 'ascii');
+  header.writeUInt32BE(body.length + 8, 4);
+  return Buffer.concat([header, body]);
+}
+
+const IOS_ICONS: { idiom: string; size: number; scale: number }[] = [
+  { idiom: 'iphone', size: 20, scale: 2 }, { idiom: 'iphone', size: 20, scale: 3 },
+  { idiom: 'iphone', size: 29, scale: 2 }, { idiom: 'iphone', size: 29, scale: 3 },
+  { idiom: 'iphone', size: 40, scale: 2 }, { idiom: 'iphone', size: 40, scale: 3 },
+  { idiom: 'iphone', size: 60, scale: 2 }, { idiom: 'iphone', size: 60, scale: 3 },
+  { idiom: 'ipad', size: 20, scale: 1 }, { idiom: 'ipad', size: 20, scale: 2 },
+  { idiom: 'ipad', size: 29, scale: 1 }, { idiom: 'ipad', size: 29, scale: 2 },
+  { idiom: 'ipad', size: 40, scale: 1 }, { idiom: 'ipad', size: 40, scale: 2 },
+  { idiom: 'ipad', size: 76, scale: 1 }, { idiom: 'ipad', size: 76, scale: 2 },
+  { idiom: 'ipad', size: 83.5, scale: 2 },
+  { idiom: 'ios-marketing', size: 1024, scale: 1 },
+];
+
+async function exportIos(source: Buffer, dir: string, padding: number, background: RGB): Promise<string[]> {
+  const setDir = join(dir, 'AppIcon.appiconset');
+  ensureDir(setDir);
+  const files: string[] = [];
+  const images = [];
+
+  for (const icon of IOS_ICONS) {
+    const pixels = Math.round(icon.size * icon.scale);
+    const filename = `icon-${icon.size}@${icon.scale}x.png`;
+    const path = join(setDir, filename);
+    if (!files.includes(path)) {
+      // App Store icons must be opaque
+      writeFileSync(path, await renderIcon(source, pixels, { inset: padding, background }));
+      files.push(path);
+    }
+    images.push({ idiom: icon.idiom, size: `${icon.size}x${icon.size}`, scale: `${icon.scale}x`, filename });
+  }
+
+  const contentsPath = join(setDir, 'Contents.json');
+  writeFileSync(contentsPath, JSON.stringify({ images, info: { version: 1, author: 'terminal-banana' } }, null, 2));
+  files.push(contentsPath);
+  return files;
+}
+
+const ANDROID_DENSITIES: { name: string; launcher: number; adaptive: number }[] = [
+  { name: 'mdpi', launcher: 48, adaptive: 108 },
+  { name: 'hdpi', launcher: 72, adaptive: 162 },
+  { name: 'xhdpi', launcher: 96, adaptive: 216 },
+  { name: 'xxhdpi', launcher: 144, adaptive: 324 },
+  { name: 'xxxhdpi', launcher: 192, adaptive: 432 },
+];
+
+async function exportAndroid(source: Buffer, dir: string, padding: number, background: RGB): Promise<string[]> {
+  const files: string[] = [];
+  const write = (path: string, data: Buffer) => {
+    writeFileSync(path, data);
+    files.push(path);
+  };
+
+  for (const density of ANDROID_DENSITIES) {
+    const mipmap = join(dir, `mipmap-${density.name}`);
+    ensureDir(mipmap);
+    write(join(mipmap, 'ic_launcher.png'), await renderIcon(source, density.launcher, { inset: padding }));
+    write(join(mipmap, 'ic_launcher_round.png'), await renderIcon(source, density.launcher, { inset: padding, circle: true }));
+    write(join(mipmap, 'ic_launcher_foreground.png'), await renderIcon(source, density.adaptive, { inset: ANDROID_ADAPTIVE_INSET + padding }));
+    write(join(mipmap, 'ic_launcher_background.png'), await solidColor(density.adaptive, background));
+  }
+
+  const anydpi = join(dir, 'mipmap-anydpi-v26');
+  ensureDir(anydpi);
+  const adaptiveXml = `<?xml version="1.0" encoding="utf-8"?>
+<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">
+    <background android:drawable="@mipmap/ic_launcher_background"/>
+    <foreground android:drawable="@mipmap/ic_launcher_foreground"/>
+</adaptive-icon>
+`;
+  write(join(anydpi, 'ic_launcher.xml'), Buffer.from(adaptiveXml));
+  write(join(anydpi, 'ic_launcher_round.xml'), Buffer.from(adaptiveXml));
+  return files;
+}
+
+async function exportWeb(source: Buffer, dir: string, padding: number, background: RGB): Promise<string[]> {
+  ensureDir(dir);
+  const files: string[] = [];
+  const write = (name: string, data: Buffer) => {
+    const path = join(dir, name);
+    writeFileSync(path, data);
+    files.push(path);
+  };
+
+  const icoSizes = [16, 32, 48];
+  const icoImages = [];
+  for (const size of icoSizes) {
+    icoImages.push({ size, data: await renderIcon(source, size, { inset: padding }) });
+  }
+  write('favicon.ico', buildIco(icoImages));
+  write('favicon-16x16.png', icoImages[0].data);
+  write('favicon-32x32.png', icoImages[1].data);
+  write('apple-touch-icon.png', await renderIcon(source, 180, { inset: padding, background }));
+  write('icon-192.png', await renderIcon(source, 192, { inset: padding }));
+  write('icon-512.png', await renderIcon(source, 512, { inset: padding }));
+  write('icon-maskable-512.png', await renderIcon(source, 512, { inset: PWA_MASKABLE_INSET + padding, background }));
+
+  const manifest = {
+    icons: [
+      { src: 'icon-192.png', sizes: '192x192', type: 'image/png' },
+      { src: 'icon-512.png', sizes: '512x512', type: 'image/png' },
+      { src: 'icon-maskable-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+    ],
+  };
+  write('manifest.json', Buffer.from(JSON.stringify(manifest, null, 2)));
+  return files;
+}
+
+// ICNS PNG entry types and their pixel sizes
+const ICNS_TYPES: { type: string; size: number }[] = [
+  { type: 'icp4', size: 16 },
+  { type: 'icp5', size: 32 },
+  { type: 'ic11', size: 32 },   // 16@2x
+  { type: 'ic12', size: 64 },   // 32@2x
+  { type: 'ic07', size: 128 },
+  { type: 'ic13', size: 256 },  // 128@2x
+  { type: 'ic08', size: 256 },
+  { type: 'ic14', size: 512 },  // 256@2x
+  { type: 'ic09', size: 512 },
+  { type: 'ic10', size: 1024 }, // 512@2x
+];
+
+async function exportMacos(source: Buffer, dir: string, padding: number): Promise<string[]> {
+  ensureDir(dir);
+  const rendered = new Map<number, Buffer>();
+  const entries = [];
+  for (const { type, size } of ICNS_TYPES) {
+    if (!rendered.has(size)) {
+      rendered.set(size, await renderIcon(source, size, { inset: MACOS_INSET + padding }));
+    }
+    entries.push({ type, data: rendered.get(size)! });
+  }
+  const path = join(dir, 'AppIcon.icns');
+  writeFileSync(path, buildIcns(entries));
+  return [path];
+}
+
+/**
+ * Export a complete icon set for the selected platforms from one source PNG.
+ * `padding` is extra empty space (fraction of the size, per side) added on
+ * top of each platform's own safe zone.
+ */
+export async function exportIcons(
+  sourcePath: string,
+  outputDir: string,
+  options: {
+    platforms?: IconPlatform[];
+    padding?: number;
+    background?: string;
+  } = {}
+): Promise<IconExportResult> {
+  if (!existsSync(sourcePath)) {
+    throw new Error(`Source image not found: ${sourcePath}`);
+  }
+
+  const platforms = options.platforms || ICON_PLATFORMS;
+  const padding = options.padding ?? 0;
+  const background = parseColor(options.background || 'white');
+  const source = readFileSync(sourcePath);
+  const warnings: string[] = [];
+
+  const { width = 0, height = 0 } = await sharp(source).metadata();
+  const largest = Math.max(...platforms.map((platform) => LARGEST_TARGET[platform]));
+  if (Math.min(width, height) < largest) {
+    warnings.push(`Source is ${width}x${height}; the largest icons are ${largest}x${largest} and will be upscaled`);
+  }
+  if (width !== height) {
+    warnings.push(`Source is not square (${width}x${height}); icons are letterboxed with transparent padding`);
+  }
+
+  ensureDir(outputDir);
+  const result: IconExportResult = {
+    source: resolve(sourcePath),
+    outputDir: resolve(outputDir),
+    platforms: {},
+    files: [],
+    warnings,
+  };
+
+  for (const platform of platforms) {
+    const dir = resolve(join(outputDir, platform));
+    let files: string[];
+    switch (platform) {
+      case 'ios':
+        files = await exportIos(source, dir, padding, background);
+        break;
+      case 'android':
+        files = await exportAndroid(source, dir, padding, background);
+        break;
+      case 'web':
+        files = await exportWeb(source, dir, padding, background);
+        break;
+      case 'macos':
+        files = await exportMacos(source, dir, padding);
+        break;
+    }
+    result.platforms[platform] = dir;
+    result.files.push(...files);
+  }
+
+  return result;
+}
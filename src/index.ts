@@ -0,0 +1,55 @@
+/**
+ * terminal-banana library entry point
+ *
+ * The CLI is built on the same pipelines; nothing here prompts, prints or
+ * calls process.exit.
+ */
+
+export {
+  BananaClient,
+  createClient,
+  ClientOptions,
+  ImageInput,
+  ClientGenerateOptions,
+  ClientEditOptions,
+  ClientTransparentOptions,
+  ClientRemoveBackgroundOptions,
+  ImageResult,
+  TransparentImageResult,
+} from './client.js';
+export {
+  ErrorCode,
+  BananaError,
+  RateLimitedError,
+  QuotaExhaustedError,
+  AuthInvalidError,
+  SafetyBlockedError,
+  NoImageError,
+  NetworkError,
+  ServerError,
+  BudgetExceededError,
+  AbortedError,
+  describeError,
+} from './errors.js';
+export { Model, AspectRatio, ImageSize, ImageConfig, MODEL_NAMES, ASPECT_RATIOS, IMAGE_SIZES } from './gemini.js';
+export { TransparentMethod, TRANSPARENT_METHODS, BackgroundColor, LocalMode, Point } from './alpha.js';
+export { Alignment } from './align.js';
+export { Region } from './inpaint.js';
+export { MatteOptions } from './matte.js';
+export { EncodeOptions, OutputFormat } from './format.js';
+export { RetryOptions } from './retry.js';
+export { CacheOptions } from './cache.js';
+export { ProgressEvent, ProgressListener, PipelineStep } from './progress.js';
+export {
+  ProviderName,
+  PROVIDER_NAMES,
+  ProviderCapabilities,
+  ImageProvider,
+  GenerateRequest,
+  EditRequest,
+  ChatRequest,
+  ChatResponse,
+  ConversationTurn,
+  ConversationPart,
+  createProvider,
+} from './provider.js';
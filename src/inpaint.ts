@@ -0,0 +1,171 @@
+/**
+ * Mask-constrained edits - tell the model which region to change, then
+ * composite its output back so everything outside the mask is untouched
+ */
+
+import sharp from 'sharp';
+import { existsSync } from 'fs';
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface InpaintOptions {
+  mask?: string;    // Grayscale image, white = editable
+  region?: Region;  // Rectangle shortcut for a mask
+  feather?: number; // Seam width in pixels, inside the mask (default: 8)
+}
+
+export const DEFAULT_SEAM_FEATHER = 8;
+
+export function hasInpaintOptions(options?: InpaintOptions): options is InpaintOptions {
+  return !!options && (options.mask !== undefined || options.region !== undefined);
+}
+
+/**
+ * Editable weight (0-255) for every pixel of a width x height image
+ */
+export async function loadMask(options: InpaintOptions, width: number, height: number): Promise<Uint8Array> {
+  if (options.region) {
+    const { x, y, width: w, height: h } = options.region;
+    if (w <= 0 || h <= 0 || x < 0 || y < 0 || x + w > width || y + h > height) {
+      throw new Error(`Region ${x},${y},${w},${h} is outside the ${width}x${height} input image`);
+    }
+    const mask = new Uint8Array(width * height);
+    for (let row = y; row < y + h; row++) {
+      mask.fill(255, row * width + x, row * width + x + w);
+    }
+    return mask;
+  }
+
+  if (!options.mask || !existsSync(options.mask)) {
+    throw new Error(`Mask file not found: ${options.mask}`);
+  }
+  // Masks drawn at another size are stretched over the input
+  const data = await sharp(options.mask)
+    .flatten({ background: '#000000' })
+    .resize(width, height, { fit: 'fill' })
+    .grayscale()
+    .raw()
+    .toBuffer();
+  return new Uint8Array(data);
+}
+
+/**
+ * Bounding box of the editable pixels, or null if the mask is empty
+ */
+export function maskBounds(mask: Uint8Array, width: number, height: number): Region | null {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] > 0) {
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Edit prompt restricted to a region of the image
+ */
+export function wrapPromptForRegion(prompt: string, region: Region, width: number, height: number): string {
+  const right = region.x + region.width;
+  const bottom = region.y + region.height;
+  return `${prompt}. Only change the area inside the rectangle from (${region.x}, ${region.y}) to (${right}, ${bottom}) ` +
+    `in this ${width}x${height} pixel image, measured from the top-left corner. ` +
+    'Keep everything outside that area exactly as it is, with the same framing and size.';
+}
+
+/**
+ * Sliding-window mean over a single-channel buffer, rows then columns
+ */
+function boxBlur(values: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const temp = new Float32Array(values.length);
+  const out = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    let sum = 0;
+    for (let x = -radius; x <= radius; x++) {
+      sum += values[y * width + Math.min(width - 1, Math.max(0, x))];
+    }
+    for (let x = 0; x < width; x++) {
+      temp[y * width + x] = sum / (2 * radius + 1);
+      sum += values[y * width + Math.min(width - 1, x + radius + 1)] - values[y * width + Math.max(0, x - radius)];
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = -radius; y <= radius; y++) {
+      sum += temp[Math.min(height - 1, Math.max(0, y)) * width + x];
+    }
+    for (let y = 0; y < height; y++) {
+      out[y * width + x] = sum / (2 * radius + 1);
+      sum += temp[Math.min(height - 1, y + radius + 1) * width + x] - temp[Math.max(0, y - radius) * width + x];
+    }
+  }
+  return out;
+}
+
+/**
+ * Blend weights with the seam ramping from 0 at the mask edge to full
+ * weight `feather` pixels inside it. Pixels outside the mask stay at 0.
+ */
+function seamWeights(mask: Uint8Array, width: number, height: number, feather: number): Float32Array {
+  const weights = new Float32Array(mask.length);
+  for (let i = 0; i < mask.length; i++) {
+    weights[i] = mask[i] / 255;
+  }
+  if (feather <= 0) {
+    return weights;
+  }
+
+  const inside = new Float32Array(mask.length);
+  for (let i = 0; i < mask.length; i++) {
+    inside[i] = mask[i] > 0 ? 1 : 0;
+  }
+  // A box of width `feather` around the edge covers 0.5..1 going inwards
+  const coverage = boxBlur(inside, width, height, Math.max(1, Math.round(feather / 2)));
+  for (let i = 0; i < mask.length; i++) {
+    weights[i] = mask[i] > 0 ? weights[i] * Math.min(1, Math.max(0, (coverage[i] - 0.5) * 2)) : 0;
+  }
+  return weights;
+}
+
+/**
+ * Blend the model's output into the input through the mask. The output is
+ * resampled to the input size first, in case the model changed it.
+ */
+export async function compositeInpaint(
+  input: Buffer,
+  edited: Buffer,
+  mask: Uint8Array,
+  feather: number = DEFAULT_SEAM_FEATHER
+): Promise<Buffer> {
+  const { width = 0, height = 0, hasAlpha } = await sharp(input).metadata();
+  const base = await sharp(input).toColourspace('srgb').ensureAlpha().raw().toBuffer();
+  const over = await sharp(edited)
+    .resize(width, height, { fit: 'fill' })
+    .toColourspace('srgb')
+    .ensureAlpha()
+    .raw()
+    .toBuffer();
+
+  const weights = seamWeights(mask, width, height, feather);
+  for (let i = 0; i < weights.length; i++) {
+    const w = weights[i];
+    if (w === 0) continue;
+    for (let c = 0; c < 4; c++) {
+      const offset = i * 4 + c;
+      base[offset] = Math.round(base[offset] * (1 - w) + over[offset] * w);
+    }
+  }
+
+  const image = sharp(base, { raw: { width, height, channels: 4 } });
+  return (hasAlpha ? image : image.removeAlpha()).png().toBuffer();
+}
@@ -0,0 +1,511 @@
+/**
+ * Job dispatch - runs a single generation/edit command from parsed arguments
+ */
+
+import {
+  ParsedArgs,
+  buildImageConfig,
+  buildRetryOptions,
+  buildCacheOptions,
+  buildIconExportOptions,
+  buildMatteOptions,
+  buildEncodeOptions,
+  buildInpaintOptions,
+  requireOutputDir,
+  requirePrompt,
+  requireInputImage,
+} from './args.js';
+import { generate, edit, loadReferenceImages, GenerateResult, EditResult } from './generate.js';
+import {
+  getModelsForMethod,
+  generateWithTransparency,
+  extractTransparencyFromImage,
+  TransparentResult,
+  ExtractTransparencyResult,
+  LocalTransparencyResult,
+  TransparentMethod,
+} from './alpha.js';
+import { basename, dirname, extname, join, resolve } from 'path';
+import { ImageType, mapConcurrent, uniqueTimestamp, wrapPromptForType } from './utils.js';
+import { createContactSheet } from './sheet.js';
+import { IconExportResult, exportIcons } from './icons.js';
+import { hasMatteOptions } from './matte.js';
+import { formatSupportsAlpha } from './format.js';
+import { BrandKit, BrandResult, getBrand, applyPalette } from './brand.js';
+import { getProvider } from './provider.js';
+import { getJobCost, formatCost } from './cost.js';
+import { describeError } from './errors.js';
+import { HistoryEntry, HistoryFile, appendHistory, createHistoryEntry } from './history.js';
+import { assertWithinBudget, withSpendContext } from './spend.js';
+import { embedProvenanceWithinCap, provenanceFromHistory } from './provenance.js';
+import { ProgressListener, tagProgress } from './progress.js';
+
+export type JobCommand =
+  | 'generate'
+  | 'icon'
+  | 'logo'
+  | 'ui'
+  | 'edit'
+  | 'transparent'
+  | 'transparent-icon'
+  | 'transparent-logo'
+  | 'transparent-ui'
+  | 'edit-transparent';
+
+export const JOB_COMMANDS: JobCommand[] = [
+  'generate', 'icon', 'logo', 'ui', 'edit',
+  'transparent', 'transparent-icon', 'transparent-logo', 'transparent-ui',
+  'edit-transparent',
+];
+
+export type JobResult = (
+  | GenerateResult
+  | EditResult
+  | TransparentResult
+  | ExtractTransparencyResult
+  | LocalTransparencyResult
+) & {
+  icons?: IconExportResult; // With --export on icon commands
+  brand?: BrandResult;      // With --brand
+};
+
+export interface VariantsResult {
+  paths: string[];
+  sheet?: string;
+  variants: JobResult[];
+  errors?: { index: number; code: string; message: string }[];
+}
+
+export type CommandResult = JobResult | VariantsResult;
+
+export interface JobOptions {
+  signal?: AbortSignal; // Cancels API calls in flight and any not yet made
+  onProgress?: ProgressListener; // Step events from the pipeline, tagged with the variant under -n
+}
+
+// Commands that create new images and so can produce several variants
+const VARIANT_COMMANDS: JobCommand[] = [
+  'generate', 'icon', 'logo', 'ui',
+  'transparent', 'transparent-icon', 'transparent-logo', 'transparent-ui',
+];
+
+// Commands whose output goes through alpha extraction
+const TRANSPARENT_COMMANDS: JobCommand[] = [
+  'transparent', 'transparent-icon', 'transparent-logo', 'transparent-ui', 'edit-transparent',
+];
+
+const DEFAULT_VARIANT_CONCURRENCY = 3;
+
+export function isJobCommand(command: string): command is JobCommand {
+  return (JOB_COMMANDS as string[]).includes(command);
+}
+
+/**
+ * Image type used for prompt wrapping by a generate or transparent command.
+ * generate and transparent take any template with --type.
+ */
+export function getImageType(command: JobCommand, parsed?: ParsedArgs): ImageType {
+  switch (command) {
+    case 'generate':
+    case 'transparent':
+      return parsed?.type || 'image';
+    case 'icon':
+    case 'transparent-icon':
+      return 'icon';
+    case 'logo':
+    case 'transparent-logo':
+      return 'logo';
+    case 'ui':
+    case 'transparent-ui':
+      return 'ui';
+    default:
+      return 'image';
+  }
+}
+
+/**
+ * Run a command, producing multiple variants when -n is greater than 1
+ */
+export async function runCommand(command: JobCommand, parsed: ParsedArgs, options: JobOptions = {}): Promise<CommandResult> {
+  if ((parsed.count ?? 1) > 1) {
+    return runVariants(command, parsed, options);
+  }
+  return runJob(command, parsed, options);
+}
+
+/**
+ * Run the same job `count` times concurrently, writing indexed filenames
+ * (`<base>_1.png`, `<base>_2.png`, ...) and optionally a contact sheet.
+ * Fails only if every variant fails.
+ */
+export async function runVariants(command: JobCommand, parsed: ParsedArgs, options: JobOptions = {}): Promise<VariantsResult> {
+  validateJob(command, parsed);
+  const count = parsed.count ?? 1;
+  const outputDir = requireOutputDir(parsed);
+  const type = getImageType(command, parsed);
+  const base = parsed.name || (command.startsWith('transparent')
+    ? `transparent_${type}_${uniqueTimestamp()}`
+    : `${type}_${uniqueTimestamp()}`);
+
+  const indexes = Array.from({ length: count }, (_, i) => i + 1);
+  const outcomes = await mapConcurrent(
+    indexes,
+    parsed.concurrency || DEFAULT_VARIANT_CONCURRENCY,
+    async (index) => {
+      try {
+        return { index, result: await runJob(command, { ...parsed, count: undefined, variant: index, name: `${base}_${index}` }, options) };
+      } catch (err) {
+        return { index, error: err };
+      }
+    }
+  );
+
+  const variants: JobResult[] = [];
+  const succeeded: number[] = [];
+  const errors: { index: number; code: string; message: string }[] = [];
+  for (const outcome of outcomes) {
+    if (outcome.result) {
+      variants.push(outcome.result);
+      succeeded.push(outcome.index);
+    } else {
+      errors.push({ index: outcome.index, ...describeError(outcome.error) });
+    }
+  }
+  if (variants.length === 0) {
+    throw outcomes[0].error;
+  }
+
+  const paths = variants.map((variant) => variant.path);
+  let sheet: string | undefined;
+  if (parsed.sheet) {
+    sheet = resolve(join(outputDir, `${base}_sheet.png`));
+    // Label cells with the variant index, so they match the filenames even when some variants failed
+    await createContactSheet(paths, sheet, { labels: succeeded.map(String) });
+  }
+
+  return {
+    paths,
+    sheet,
+    variants,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+function outputFilename(parsed: ParsedArgs): string | undefined {
+  return parsed.name ? `${parsed.name}.png` : undefined;
+}
+
+/**
+ * Check that a job has everything its command needs, without running it
+ */
+export function validateJob(command: JobCommand, parsed: ParsedArgs): void {
+  requireOutputDir(parsed);
+  if ((parsed.count ?? 1) > 1 && !VARIANT_COMMANDS.includes(command)) {
+    throw new Error(`-n is not supported for ${command}`);
+  }
+  if (parsed.exportIcons && command !== 'icon' && command !== 'transparent-icon') {
+    throw new Error('--export is only supported for icon and transparent-icon');
+  }
+  if (hasMatteOptions(buildMatteOptions(parsed)) && !TRANSPARENT_COMMANDS.includes(command)) {
+    throw new Error('Matte refinement flags are only supported for transparent commands and edit-transparent');
+  }
+  if (parsed.format && !formatSupportsAlpha(parsed.format) && TRANSPARENT_COMMANDS.includes(command)) {
+    throw new Error(`--format ${parsed.format} can't carry transparency. Use png, webp or avif for ${command}`);
+  }
+  if ((parsed.mask || parsed.region || parsed.maskFeather !== undefined) && command !== 'edit') {
+    throw new Error('--mask, --region and --mask-feather are only supported for edit');
+  }
+  if (parsed.resume) {
+    if (!command.startsWith('transparent')) {
+      throw new Error('--resume is only supported for transparent commands');
+    }
+    if ((parsed.count ?? 1) > 1) {
+      throw new Error('--resume reuses a single white pass and can\'t be combined with -n');
+    }
+  }
+  if (parsed.keepIntermediates !== undefined && !TRANSPARENT_COMMANDS.includes(command)) {
+    throw new Error('--keep-intermediates and --no-keep-intermediates are only supported for transparent commands and edit-transparent');
+  }
+  if (parsed.type && command !== 'generate' && command !== 'transparent') {
+    throw new Error('--type is only supported for generate and transparent');
+  }
+  if (parsed.brand) {
+    if (!VARIANT_COMMANDS.includes(command) && command !== 'edit') {
+      throw new Error(`--brand is not supported for ${command}`);
+    }
+    assertBrandReferences(command, parsed, getBrand(parsed.brand));
+  }
+  if (parsed.paletteMode && parsed.paletteMode !== 'off' && !(parsed.brand && getBrand(parsed.brand).palette?.length)) {
+    throw new Error('--palette-mode requires --brand with a kit that has a palette');
+  }
+  if (parsed.vars && !VARIANT_COMMANDS.includes(command)) {
+    throw new Error(`--var is not supported for ${command}`);
+  }
+  switch (command) {
+    case 'edit':
+      requireInputImage(parsed);
+      requirePrompt(parsed);
+      if (parsed.mask && parsed.region) {
+        throw new Error('Use either --mask or --region, not both');
+      }
+      if (parsed.maskFeather !== undefined && !parsed.mask && !parsed.region) {
+        throw new Error('--mask-feather requires --mask or --region');
+      }
+      break;
+    case 'edit-transparent':
+      requireInputImage(parsed);
+      if ((parsed.localMode || parsed.seeds) && parsed.method !== 'local') {
+        throw new Error('--local-mode and --seed require --method local');
+      }
+      if (parsed.seeds && parsed.localMode !== 'flood') {
+        throw new Error('--seed requires --local-mode flood');
+      }
+      break;
+    case 'transparent':
+    case 'transparent-icon':
+    case 'transparent-logo':
+    case 'transparent-ui':
+      requirePrompt(parsed);
+      // Local method only works for edit-transparent (background removal from existing images)
+      if (parsed.method === 'local') {
+        throw new Error('--method local is only valid for edit-transparent (background removal from existing images). Use pro-pro, pro-flash, or flash-flash for transparent generation.');
+      }
+      break;
+    default:
+      requirePrompt(parsed);
+  }
+  if (VARIANT_COMMANDS.includes(command)) {
+    // Unknown types and missing variables fail here rather than mid-run
+    wrapPromptForType(requirePrompt(parsed), getImageType(command, parsed), parsed.vars);
+  }
+}
+
+/**
+ * Run a job and return its result. Throws on failure.
+ * Every attempt, successful or not, is recorded in the history ledger.
+ */
+export async function runJob(command: JobCommand, parsed: ParsedArgs, options: JobOptions = {}): Promise<JobResult> {
+  validateJob(command, parsed);
+  return recordJob(command, parsed, () => executeJob(command, parsed, options), (result) => ({
+    prompt: 'prompt' in result ? result.prompt : undefined,
+    outputs: [result.path],
+    intermediates: 'intermediates' in result ? result.intermediates : undefined,
+  }), async (result, entry) => {
+    if (parsed.brand) {
+      result.brand = await applyBrandPalette(result.path, parsed);
+    }
+    if (!parsed.stripMetadata && await embedProvenanceWithinCap(result.path, provenanceFromHistory(entry), buildEncodeOptions(parsed))) {
+      result.overSizeLimit = true;
+    }
+    if (parsed.exportIcons) {
+      const iconsDir = join(dirname(result.path), `${basename(result.path, extname(result.path))}_icons`);
+      result.icons = await exportIcons(result.path, iconsDir, buildIconExportOptions(parsed));
+    }
+  });
+}
+
+/**
+ * What a finished job contributes to its history entry
+ */
+export interface JobRecord {
+  prompt?: string;
+  outputs: string[];
+  intermediates?: { white: string; black: string };
+  input?: HistoryFile;        // Default: hashed from parsed
+  references?: HistoryFile[]; // Default: hashed from parsed
+}
+
+/**
+ * Run a job command through the shared bookkeeping (see recordRun), with
+ * its cost estimated from the parsed arguments
+ */
+export function recordJob<T>(
+  command: JobCommand,
+  parsed: ParsedArgs,
+  run: () => Promise<T>,
+  record: (result: T) => JobRecord,
+  finish?: (result: T, entry: HistoryEntry) => Promise<void>
+): Promise<T> {
+  const method = TRANSPARENT_COMMANDS.includes(command) ? parsed.method || 'pro-pro' : undefined;
+  return recordRun(command, parsed, { ...getJobCost(command, parsed), method }, run, record, finish);
+}
+
+/**
+ * The bookkeeping shared by CLI jobs, library calls and session steps:
+ * check the budget, tag spend with the command, and append a history entry
+ * whether `run` succeeds or fails. `finish` runs before the entry is
+ * appended, to post-process outputs (e.g. embed provenance from the entry).
+ */
+export async function recordRun<T>(
+  command: string,
+  parsed: ParsedArgs,
+  estimate: { model: string; total: number; method?: TransparentMethod },
+  run: () => Promise<T>,
+  record: (result: T) => JobRecord,
+  finish?: (result: T, entry: HistoryEntry) => Promise<void>
+): Promise<T> {
+  const started = Date.now();
+  const { model, total, method } = estimate;
+
+  try {
+    if (!parsed.overBudget) {
+      assertWithinBudget(total);
+    }
+    const result = await withSpendContext(command, run, { overBudget: parsed.overBudget });
+    const entry = createHistoryEntry(command, parsed, {
+      status: 'succeeded',
+      model,
+      method,
+      estimatedCost: formatCost(total),
+      durationMs: Date.now() - started,
+      ...record(result),
+    });
+    await finish?.(result, entry);
+    appendHistory(entry);
+    return result;
+  } catch (err) {
+    appendHistory(createHistoryEntry(command, parsed, {
+      status: 'failed',
+      model,
+      method,
+      estimatedCost: formatCost(total),
+      durationMs: Date.now() - started,
+      error: describeError(err),
+    }));
+    throw err;
+  }
+}
+
+/**
+ * Report palette adherence for a branded output, remapping it if asked
+ */
+async function applyBrandPalette(path: string, parsed: ParsedArgs): Promise<BrandResult> {
+  const brand = getBrand(parsed.brand!);
+  if (!brand.palette?.length) {
+    return { name: parsed.brand! };
+  }
+  const palette = await applyPalette(path, brand.palette, parsed.paletteMode || brand.paletteMode, buildEncodeOptions(parsed));
+  return { name: parsed.brand!, palette };
+}
+
+/**
+ * Check that a kit's reference images plus those passed with -r fit the
+ * model, before anything is estimated or sent. Edits and resumed runs send
+ * no references.
+ */
+function assertBrandReferences(command: JobCommand, parsed: ParsedArgs, brand: BrandKit): void {
+  const kitCount = brand.references?.length ?? 0;
+  if (kitCount === 0 || command === 'edit' || parsed.resume) {
+    return;
+  }
+  const model = TRANSPARENT_COMMANDS.includes(command)
+    ? getModelsForMethod(parsed.method || 'pro-pro').generate
+    : parsed.model || 'nano-banana-pro';
+  const { maxReferenceImages } = getProvider(parsed.provider).capabilities(model);
+  const total = kitCount + (parsed.referenceImages?.length ?? 0);
+  if (total > maxReferenceImages) {
+    throw new Error(
+      `Too many reference images for ${model}: ${total}, of which ${kitCount} come from brand kit ${parsed.brand}. Maximum is ${maxReferenceImages}`
+    );
+  }
+}
+
+/**
+ * Kit reference images first, then any passed with -r
+ */
+function loadJobReferences(parsed: ParsedArgs, brand?: BrandKit): Buffer[] | undefined {
+  const paths = [...(brand?.references || []), ...(parsed.referenceImages || [])];
+  return paths.length > 0 ? loadReferenceImages(paths) : undefined;
+}
+
+async function executeJob(command: JobCommand, parsed: ParsedArgs, options: JobOptions): Promise<JobResult> {
+  const outputDir = requireOutputDir(parsed);
+  const imageConfig = buildImageConfig(parsed);
+  const filename = outputFilename(parsed);
+  const retry = buildRetryOptions(parsed);
+  const provider = getProvider(parsed.provider);
+  const cache = buildCacheOptions(parsed);
+  const matte = buildMatteOptions(parsed);
+  const encoding = buildEncodeOptions(parsed);
+  const brand = parsed.brand ? getBrand(parsed.brand) : undefined;
+  const signal = options.signal;
+  const onProgress = tagProgress(options.onProgress, { variant: parsed.variant });
+
+  switch (command) {
+    case 'edit':
+      return edit(requireInputImage(parsed), requirePrompt(parsed), outputDir, {
+        model: parsed.model || 'nano-banana-pro',
+        imageConfig,
+        filename,
+        retry,
+        provider,
+        cache,
+        encoding,
+        signal,
+        onProgress,
+        inpaint: buildInpaintOptions(parsed),
+        style: brand?.style,
+      });
+
+    case 'edit-transparent':
+      return extractTransparencyFromImage(requireInputImage(parsed), outputDir, {
+        method: parsed.method || 'pro-pro',
+        imageConfig,
+        bgColor: parsed.bgColor,
+        tolerance: parsed.tolerance,
+        localMode: parsed.localMode,
+        seeds: parsed.seeds,
+        keepIntermediates: parsed.keepIntermediates,
+        filename,
+        retry,
+        provider,
+        cache,
+        matte,
+        encoding,
+        signal,
+        onProgress,
+      });
+
+    case 'transparent':
+    case 'transparent-icon':
+    case 'transparent-logo':
+    case 'transparent-ui':
+      return generateWithTransparency(requirePrompt(parsed), outputDir, {
+        method: parsed.method || 'pro-pro',
+        type: getImageType(command, parsed),
+        vars: parsed.vars,
+        style: brand?.style,
+        imageConfig,
+        filename,
+        referenceImages: loadJobReferences(parsed, brand),
+        retry,
+        provider,
+        cache,
+        variant: parsed.variant,
+        resume: parsed.resume,
+        keepIntermediates: parsed.keepIntermediates,
+        matte,
+        encoding,
+        signal,
+        onProgress,
+      });
+
+    default:
+      return generate(requirePrompt(parsed), outputDir, {
+        model: parsed.model || 'nano-banana-pro',
+        type: getImageType(command, parsed),
+        vars: parsed.vars,
+        style: brand?.style,
+        imageConfig,
+        referenceImages: loadJobReferences(parsed, brand),
+        filename,
+        retry,
+        provider,
+        cache,
+        variant: parsed.variant,
+        encoding,
+        signal,
+        onProgress,
+      });
+  }
+}
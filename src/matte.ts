@@ -0,0 +1,226 @@
+/**
+ * Matte refinement - cleans up alpha noise and edge fringes left by
+ * difference matting and local background removal
+ */
+
+type RGB = { r: number; g: number; b: number };
+
+export interface MatteOptions {
+  alphaThreshold?: number; // 0-127: alpha within this distance of 0 or 255 snaps to it
+  despeckle?: number;      // Remove isolated islands smaller than this many pixels
+  fillHoles?: number;      // Fill enclosed transparent holes up to this many pixels
+  erode?: number;          // Shrink the matte edge by this radius in pixels
+  feather?: number;        // Soften the matte edge by this radius in pixels
+  decontaminate?: boolean; // Recover edge colors by removing the known background
+}
+
+/**
+ * The subject as seen composited over a known background color
+ * (RGBA raw, same dimensions as the matte)
+ */
+export interface MatteObservation {
+  data: Buffer;
+  background: RGB;
+}
+
+export function hasMatteOptions(options?: MatteOptions): options is MatteOptions {
+  return !!options && !!(
+    options.alphaThreshold ||
+    options.despeckle ||
+    options.fillHoles ||
+    options.erode ||
+    options.feather ||
+    options.decontaminate
+  );
+}
+
+/**
+ * Un-mix edge pixels: each observation gives C = aF + (1 - a)B, so
+ * F = (C - (1 - a)B) / a. Estimates from every observation are averaged.
+ */
+function decontaminate(data: Buffer, observations: MatteObservation[]): void {
+  for (let offset = 0; offset < data.length; offset += 4) {
+    const alpha = data[offset + 3] / 255;
+    if (alpha < 0.01 || alpha >= 1) continue;
+
+    for (let c = 0; c < 3; c++) {
+      let sum = 0;
+      for (const observation of observations) {
+        const background = c === 0 ? observation.background.r : c === 1 ? observation.background.g : observation.background.b;
+        sum += (observation.data[offset + c] - (1 - alpha) * background) / alpha;
+      }
+      data[offset + c] = Math.round(Math.min(255, Math.max(0, sum / observations.length)));
+    }
+  }
+}
+
+function thresholdAlpha(data: Buffer, threshold: number): void {
+  for (let offset = 3; offset < data.length; offset += 4) {
+    if (data[offset] <= threshold) data[offset] = 0;
+    else if (data[offset] >= 255 - threshold) data[offset] = 255;
+  }
+}
+
+/**
+ * 8-connected components of pixels matching `inside`, passed to `visit`
+ * along with whether the component touches the image border
+ */
+function forEachComponent(
+  alpha: Uint8Array,
+  width: number,
+  height: number,
+  inside: (a: number) => boolean,
+  visit: (pixels: number[], touchesBorder: boolean) => void
+): void {
+  const seen = new Uint8Array(alpha.length);
+  const stack: number[] = [];
+
+  for (let start = 0; start < alpha.length; start++) {
+    if (seen[start] || !inside(alpha[start])) continue;
+
+    const pixels: number[] = [];
+    let touchesBorder = false;
+    seen[start] = 1;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      pixels.push(i);
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) touchesBorder = true;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (!seen[n] && inside(alpha[n])) {
+            seen[n] = 1;
+            stack.push(n);
+          }
+        }
+      }
+    }
+    visit(pixels, touchesBorder);
+  }
+}
+
+function extractAlpha(data: Buffer): Uint8Array {
+  const alpha = new Uint8Array(data.length / 4);
+  for (let i = 0; i < alpha.length; i++) alpha[i] = data[i * 4 + 3];
+  return alpha;
+}
+
+function despeckle(data: Buffer, width: number, height: number, minArea: number): void {
+  forEachComponent(extractAlpha(data), width, height, (a) => a > 0, (pixels) => {
+    if (pixels.length >= minArea) return;
+    for (const i of pixels) data[i * 4 + 3] = 0;
+  });
+}
+
+/**
+ * Make enclosed mostly-transparent regions opaque, taking their color from
+ * the first observation. The ring of partial alpha around each hole is
+ * filled too, so no halo is left behind.
+ */
+function fillHoles(data: Buffer, width: number, height: number, maxArea: number, source?: MatteObservation): void {
+  forEachComponent(extractAlpha(data), width, height, (a) => a < 128, (pixels, touchesBorder) => {
+    if (touchesBorder || pixels.length > maxArea) return;
+    const fill = (i: number) => {
+      const offset = i * 4;
+      if (source) {
+        data[offset] = source.data[offset];
+        data[offset + 1] = source.data[offset + 1];
+        data[offset + 2] = source.data[offset + 2];
+      }
+      data[offset + 3] = 255;
+    };
+    for (const i of pixels) {
+      fill(i);
+    }
+    for (const i of pixels) {
+      const x = i % width;
+      const y = (i - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const n = (y + dy) * width + (x + dx);
+          if (data[n * 4 + 3] < 255) fill(n);
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Separable sliding-window pass over the alpha channel
+ */
+function filterAlpha(
+  data: Buffer,
+  width: number,
+  height: number,
+  radius: number,
+  reduce: (values: number[]) => number
+): void {
+  const alpha = extractAlpha(data);
+  const temp = new Uint8Array(alpha.length);
+  const window: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      window.length = 0;
+      for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++) {
+        window.push(alpha[y * width + k]);
+      }
+      temp[y * width + x] = reduce(window);
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      window.length = 0;
+      for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++) {
+        window.push(temp[k * width + x]);
+      }
+      data[(y * width + x) * 4 + 3] = reduce(window);
+    }
+  }
+}
+
+const minimum = (values: number[]) => Math.min(...values);
+const mean = (values: number[]) => Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+
+/**
+ * Apply the selected refinements to an RGBA raw buffer in place.
+ * Order: decontaminate (needs the unmodified alpha), threshold,
+ * despeckle, fill holes, erode, feather.
+ */
+export function refineMatte(
+  data: Buffer,
+  width: number,
+  height: number,
+  options: MatteOptions,
+  observations: MatteObservation[] = []
+): void {
+  if (options.decontaminate && observations.length > 0) {
+    decontaminate(data, observations);
+  }
+  if (options.alphaThreshold) {
+    thresholdAlpha(data, options.alphaThreshold);
+  }
+  if (options.despeckle) {
+    despeckle(data, width, height, options.despeckle);
+  }
+  if (options.fillHoles) {
+    fillHoles(data, width, height, options.fillHoles, observations[0]);
+  }
+  if (options.erode) {
+    filterAlpha(data, width, height, Math.round(options.erode), minimum);
+  }
+  if (options.feather) {
+    // Two box passes approximate a gaussian falloff
+    const radius = Math.max(1, Math.round(options.feather / 2));
+    filterAlpha(data, width, height, radius, mean);
+    filterAlpha(data, width, height, radius, mean);
+  }
+}
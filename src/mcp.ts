@@ -0,0 +1,338 @@
+/**
+ * MCP (Model Context Protocol) server over stdio - the image commands as
+ * tools for coding agents
+ *
+ * Messages are newline-delimited JSON-RPC 2.0. Tool calls go through the
+ * same argument validation, defaults, history and budget checks as the CLI.
+ */
+
+import sharp from 'sharp';
+import { createInterface } from 'readline';
+import { ParsedArgs, parseArgs, MAX_REFERENCE_IMAGES } from './args.js';
+import { ASPECT_RATIOS, IMAGE_SIZES, MODEL_NAMES } from './gemini.js';
+import { TRANSPARENT_METHODS } from './alpha.js';
+import { JobCommand, CommandResult, runCommand, validateJob } from './jobs.js';
+import { getActiveProfileName, maskApiKey, resolveApiKey } from './config.js';
+import { resolveDefaults, withDefaults } from './settings.js';
+import { resolveProviderName } from './provider.js';
+import { listTemplates } from './templates.js';
+import { getToolVersion } from './provenance.js';
+import { describeError } from './errors.js';
+
+type JsonSchema = Record<string, unknown>;
+
+interface Tool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+type ToolContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// Longest side of inline previews, in pixels
+const PREVIEW_SIZE = 256;
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+// Tool argument to CLI flag, so tool calls are validated like command lines
+const FLAGS: Record<string, string> = {
+  outputDir: '-o',
+  inputImage: '-i',
+  model: '--model',
+  method: '--method',
+  resolution: '--resolution',
+  aspectRatio: '--aspect-ratio',
+  name: '--name',
+  type: '--type',
+  bgColor: '--bg-color',
+  tolerance: '--tolerance',
+  localMode: '--local-mode',
+  mask: '--mask',
+  count: '-n',
+};
+
+// Image tools and the command each one runs
+const TOOL_COMMANDS: Record<string, JobCommand> = {
+  generate: 'generate',
+  edit: 'edit',
+  transparent: 'transparent',
+  remove_background: 'edit-transparent',
+};
+
+const common: Record<string, JsonSchema> = {
+  outputDir: { type: 'string', description: 'Directory to write the output to (optional if a default is configured)' },
+  name: { type: 'string', description: 'Output filename without extension' },
+  resolution: { type: 'string', enum: IMAGE_SIZES, description: 'Image size (2K and 4K need nano-banana-pro)' },
+  aspectRatio: { type: 'string', enum: ASPECT_RATIOS },
+  preview: { type: 'boolean', description: `Include a small (${PREVIEW_SIZE}px) inline preview of each output` },
+};
+
+const prompt: JsonSchema = { type: 'string', description: 'What to create or change' };
+const inputImage: JsonSchema = { type: 'string', description: 'Path to the input image' };
+const referenceImages: JsonSchema = {
+  type: 'array',
+  items: { type: 'string' },
+  maxItems: MAX_REFERENCE_IMAGES,
+  description: 'Paths to reference images',
+};
+const vars: JsonSchema = {
+  type: 'object',
+  additionalProperties: { type: 'string' },
+  description: 'Values for the image type template\'s variables',
+};
+
+function objectSchema(properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema {
+  return { type: 'object', properties, required, additionalProperties: false };
+}
+
+/**
+ * Tool list. Image types are read from config, so custom templates show up.
+ */
+function listTools(): Tool[] {
+  const type: JsonSchema = {
+    type: 'string',
+    enum: listTemplates().map((t) => t.name),
+    description: 'Image type template to wrap the prompt with (default: image)',
+  };
+  const model: JsonSchema = { type: 'string', enum: MODEL_NAMES, description: 'Model (default: nano-banana-pro)' };
+
+  return [
+    {
+      name: 'generate',
+      description: 'Generate an image from a text prompt. Returns the output path.',
+      inputSchema: objectSchema({
+        prompt, type, vars, model, referenceImages,
+        count: { type: 'integer', minimum: 1, maximum: 10, description: 'Number of variants' },
+        ...common,
+      }, ['prompt']),
+    },
+    {
+      name: 'edit',
+      description: 'Edit an existing image with a text instruction, optionally only inside a mask or region.',
+      inputSchema: objectSchema({
+        inputImage, prompt, model,
+        mask: { type: 'string', description: 'Grayscale mask image path, white = editable' },
+        region: objectSchema({
+          x: { type: 'integer', minimum: 0 },
+          y: { type: 'integer', minimum: 0 },
+          width: { type: 'integer', minimum: 1 },
+          height: { type: 'integer', minimum: 1 },
+        }, ['x', 'y', 'width', 'height']),
+        ...common,
+      }, ['inputImage', 'prompt']),
+    },
+    {
+      name: 'transparent',
+      description: 'Generate an image with a transparent background (two API passes plus difference matting).',
+      inputSchema: objectSchema({
+        prompt, type, vars, referenceImages,
+        method: { type: 'string', enum: TRANSPARENT_METHODS.filter((m) => m !== 'local'), description: 'Models for the two passes (default: pro-pro)' },
+        ...common,
+      }, ['prompt']),
+    },
+    {
+      name: 'remove_background',
+      description: 'Remove the background from an existing image. The local method makes no API calls.',
+      inputSchema: objectSchema({
+        inputImage,
+        method: { type: 'string', enum: TRANSPARENT_METHODS, description: 'pro-pro (default), pro-flash, flash-flash, or local' },
+        bgColor: { type: 'string', description: 'local: background color to remove (white, black, auto or hex; default: auto)' },
+        tolerance: { type: 'integer', minimum: 0, maximum: 255, description: 'local: color tolerance (default: 30)' },
+        localMode: { type: 'string', enum: ['global', 'flood'], description: 'local: remove matching pixels anywhere, or only connected to the border' },
+        ...common,
+      }, ['inputImage']),
+    },
+    {
+      name: 'config_status',
+      description: 'Whether an API key is configured, plus the active profile, provider and defaults.',
+      inputSchema: objectSchema({}),
+    },
+  ];
+}
+
+/**
+ * Tool arguments as parsed CLI options
+ */
+function toParsedArgs(tool: Tool, args: Record<string, unknown>): ParsedArgs {
+  const properties = tool.inputSchema.properties as Record<string, JsonSchema>;
+  const flags: string[] = [];
+  for (const [key, value] of Object.entries(args)) {
+    if (!(key in properties)) {
+      throw new Error(`Unknown argument for ${tool.name}: ${key}`);
+    }
+    if (value === undefined || value === null || key === 'prompt' || key === 'preview') {
+      continue;
+    }
+    if (FLAGS[key]) {
+      flags.push(FLAGS[key], String(value));
+    } else if (key === 'referenceImages') {
+      for (const ref of value as unknown[]) {
+        flags.push('-r', String(ref));
+      }
+    } else if (key === 'vars') {
+      for (const [name, v] of Object.entries(value as Record<string, unknown>)) {
+        flags.push('--var', `${name}=${String(v)}`);
+      }
+    } else if (key === 'region') {
+      const { x, y, width, height } = value as Record<string, unknown>;
+      flags.push('--region', `${x},${y},${width},${height}`);
+    }
+  }
+  const parsed = parseArgs(flags);
+  if (args.prompt !== undefined) {
+    parsed.prompt = String(args.prompt);
+  }
+  return parsed;
+}
+
+async function previewImage(path: string): Promise<ToolContent> {
+  const buffer = await sharp(path)
+    .resize(PREVIEW_SIZE, PREVIEW_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer();
+  return { type: 'image', data: buffer.toString('base64'), mimeType: 'image/png' };
+}
+
+function outputPaths(result: CommandResult): string[] {
+  return 'paths' in result ? result.paths : [result.path];
+}
+
+function configStatus(): Record<string, unknown> {
+  const apiKey = resolveApiKey();
+  return {
+    configured: apiKey !== null,
+    apiKey: apiKey ? { value: maskApiKey(apiKey.value), source: apiKey.source } : null,
+    profile: getActiveProfileName(),
+    provider: resolveProviderName(),
+    defaults: resolveDefaults(),
+  };
+}
+
+/**
+ * Run a tool. Failures are reported in the result with isError, so the
+ * agent sees them, rather than as protocol errors.
+ */
+async function callTool(tool: Tool, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  try {
+    if (tool.name === 'config_status') {
+      const status = configStatus();
+      return { content: [{ type: 'text', text: JSON.stringify(status, null, 2) }], structuredContent: status };
+    }
+
+    const command = TOOL_COMMANDS[tool.name];
+    const parsed = withDefaults(command, toParsedArgs(tool, args));
+    validateJob(command, parsed);
+    const result = await runCommand(command, parsed);
+
+    const content: ToolContent[] = [{ type: 'text', text: JSON.stringify(result, null, 2) }];
+    if (args.preview) {
+      for (const path of outputPaths(result)) {
+        content.push(await previewImage(path));
+      }
+    }
+    return { content, structuredContent: result };
+  } catch (err) {
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ error: describeError(err) }, null, 2) }],
+      isError: true,
+    };
+  }
+}
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+async function handle(message: JsonRpcMessage): Promise<unknown> {
+  const params = message.params || {};
+  switch (message.method) {
+    case 'initialize': {
+      const requested = String(params.protocolVersion || '');
+      return {
+        protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+        capabilities: { tools: {} },
+        serverInfo: { name: 'terminal-banana', version: getToolVersion() },
+      };
+    }
+
+    case 'ping':
+      return {};
+
+    case 'tools/list':
+      return { tools: listTools() };
+
+    case 'tools/call': {
+      const tool = listTools().find((t) => t.name === params.name);
+      if (!tool) {
+        throw new RpcError(INVALID_PARAMS, `Unknown tool: ${String(params.name)}`);
+      }
+      return callTool(tool, (params.arguments as Record<string, unknown>) || {});
+    }
+
+    default:
+      throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+  }
+}
+
+function send(message: Record<string, unknown>): void {
+  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+}
+
+/**
+ * Serve MCP on stdin/stdout until stdin closes. Requests are handled
+ * concurrently; notifications get no reply.
+ */
+export function runMcpServer(): Promise<void> {
+  const pending = new Set<Promise<void>>();
+  const lines = createInterface({ input: process.stdin });
+
+  lines.on('line', (line) => {
+    if (!line.trim()) {
+      return;
+    }
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line) as JsonRpcMessage;
+    } catch {
+      send({ id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+      return;
+    }
+    if (message.id === undefined || message.id === null) {
+      return;
+    }
+
+    const id = message.id;
+    const task = handle(message).then(
+      (result) => send({ id, result }),
+      (err) => send({
+        id,
+        error: err instanceof RpcError
+          ? { code: err.code, message: err.message }
+          : { code: INVALID_PARAMS, message: describeError(err).message },
+      })
+    ).finally(() => pending.delete(task));
+    pending.add(task);
+  });
+
+  return new Promise((resolve) => {
+    lines.on('close', () => {
+      Promise.all(pending).then(() => resolve());
+    });
+  });
+}
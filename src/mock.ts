@@ -0,0 +1,197 @@
+/**
+ * Offline mock provider - deterministic images rendered locally with sharp
+ *
+ * Generation draws shapes derived from a hash of the prompt on a solid
+ * background. Background edits ("change the background to black") re-render
+ * the same shapes on the new color, so the difference matting pipeline can
+ * be exercised end to end without an API key.
+ */
+
+import sharp from 'sharp';
+import { createHash } from 'crypto';
+import { ImageConfig, ImageSize, Model, ASPECT_RATIOS, IMAGE_SIZES } from './gemini.js';
+import {
+  ImageProvider,
+  ProviderCapabilities,
+  GenerateRequest,
+  EditRequest,
+  ChatRequest,
+  ChatResponse,
+  ConversationTurn,
+} from './provider.js';
+import { parseColor } from './utils.js';
+import { throwIfAborted } from './errors.js';
+
+type RGB = { r: number; g: number; b: number };
+
+const BASE_SIZES: Record<ImageSize, number> = { '1K': 1024, '2K': 2048, '4K': 4096 };
+
+// Color distance below which a pixel counts as background in foreign images
+const KEY_TOLERANCE = 48;
+
+function hashBytes(...parts: (string | Buffer)[]): Buffer {
+  const hash = createHash('sha256');
+  for (const part of parts) {
+    hash.update(part);
+  }
+  return hash.digest();
+}
+
+/**
+ * Most recent image in a conversation
+ */
+function latestImage(history: ConversationTurn[]): Buffer | undefined {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const part = [...history[i].parts].reverse().find((p) => p.image);
+    if (part?.image) {
+      return part.image;
+    }
+  }
+  return undefined;
+}
+
+function getDimensions(config?: ImageConfig): { width: number; height: number } {
+  const base = BASE_SIZES[config?.imageSize || '1K'];
+  const [w, h] = (config?.aspectRatio || '1:1').split(':').map(Number);
+  const ratio = Math.sqrt(w / h);
+  return {
+    width: Math.round((base * ratio) / 8) * 8,
+    height: Math.round((base / ratio) / 8) * 8,
+  };
+}
+
+/**
+ * Requested background color, e.g. "on a pure solid white #FFFFFF background"
+ * or "Change the background to pure solid black"
+ */
+export function backgroundFromPrompt(prompt: string): RGB | null {
+  if (!/background/i.test(prompt)) {
+    return null;
+  }
+  const hex = prompt.match(/#([0-9a-fA-F]{6})\b/);
+  if (hex) {
+    return parseColor(hex[1]);
+  }
+  const word = prompt.match(/\b(white|black)\b/i);
+  return word ? parseColor(word[1].toLowerCase()) : null;
+}
+
+/**
+ * SVG shapes (no background) derived from the hash bytes
+ */
+function shapesSvg(seed: Buffer, width: number, height: number, maxShapes: number = 4): string {
+  const minDim = Math.min(width, height);
+  const count = 1 + (seed[0] % maxShapes);
+  const shapes: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const b = seed.subarray(1 + i * 7, 8 + i * 7);
+    // Keep shapes inside the central area so the corners stay background
+    const cx = Math.round(width * (0.3 + (b[0] / 255) * 0.4));
+    const cy = Math.round(height * (0.3 + (b[1] / 255) * 0.4));
+    const size = Math.round(minDim * (0.08 + (b[2] / 255) * 0.12));
+    const fill = `hsl(${Math.round((b[3] / 255) * 360)}, ${50 + (b[4] % 50)}%, ${30 + (b[5] % 40)}%)`;
+    // The first shape is always opaque; later ones may be translucent
+    const opacity = i === 0 || b[6] % 2 === 0 ? 1 : 0.55;
+
+    switch (b[6] % 3) {
+      case 0:
+        shapes.push(`<circle cx="${cx}" cy="${cy}" r="${size}" fill="${fill}" fill-opacity="${opacity}"/>`);
+        break;
+      case 1:
+        shapes.push(`<rect x="${cx - size}" y="${cy - size}" width="${size * 2}" height="${size * 2}" rx="${Math.round(size / 4)}" fill="${fill}" fill-opacity="${opacity}"/>`);
+        break;
+      default:
+        shapes.push(`<polygon points="${cx},${cy - size} ${cx + size},${cy + size} ${cx - size},${cy + size}" fill="${fill}" fill-opacity="${opacity}"/>`);
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join('')}</svg>`;
+}
+
+export class MockProvider implements ImageProvider {
+  readonly name = 'mock' as const;
+  private readonly background: RGB;
+  // Transparent foreground layer of every image this provider produced, keyed by output hash
+  private readonly foregrounds = new Map<string, Buffer>();
+
+  constructor(options: { background?: string } = {}) {
+    this.background = parseColor(options.background || 'white');
+  }
+
+  capabilities(_model: Model): ProviderCapabilities {
+    return { maxReferenceImages: 14, supportedSizes: IMAGE_SIZES, supportedAspectRatios: ASPECT_RATIOS };
+  }
+
+  async generate(request: GenerateRequest): Promise<Buffer> {
+    throwIfAborted(request.signal);
+    const { width, height } = getDimensions(request.config);
+    const seed = hashBytes(request.prompt, String(request.variant ?? ''), ...(request.referenceImages || []));
+    const foreground = await sharp(Buffer.from(shapesSvg(seed, width, height))).png().toBuffer();
+    return this.render(foreground, backgroundFromPrompt(request.prompt) || this.background);
+  }
+
+  async edit(request: EditRequest): Promise<Buffer> {
+    throwIfAborted(request.signal);
+    const target = backgroundFromPrompt(request.prompt);
+    const foreground = this.foregrounds.get(hashBytes(request.image).toString('hex'));
+
+    if (target && foreground) {
+      return this.render(foreground, target);
+    }
+    if (target) {
+      return this.render(await this.keyForeground(request.image), target);
+    }
+
+    // Any other edit: stamp a prompt-derived shape on top of the image
+    const { width = 1024, height = 1024 } = await sharp(request.image).metadata();
+    const overlay = Buffer.from(shapesSvg(hashBytes(request.prompt), width, height, 1));
+    const output = await sharp(request.image).composite([{ input: overlay }]).png().toBuffer();
+    if (foreground) {
+      this.remember(output, await sharp(foreground).composite([{ input: overlay }]).png().toBuffer());
+    }
+    return output;
+  }
+
+  /**
+   * Conversations edit the latest image, or generate one if there is none yet
+   */
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    throwIfAborted(request.signal);
+    const source = request.image || latestImage(request.history);
+    const image = source
+      ? await this.edit({ image: source, prompt: request.prompt, model: request.model, config: request.config })
+      : await this.generate({ prompt: request.prompt, model: request.model, config: request.config });
+    return { image, turn: { role: 'model', parts: [{ image }] } };
+  }
+
+  private async render(foreground: Buffer, background: RGB): Promise<Buffer> {
+    const output = await sharp(foreground).flatten({ background }).png().toBuffer();
+    this.remember(output, foreground);
+    return output;
+  }
+
+  private remember(output: Buffer, foreground: Buffer): void {
+    this.foregrounds.set(hashBytes(output).toString('hex'), foreground);
+  }
+
+  /**
+   * Recover a foreground layer from an image this provider didn't render,
+   * by keying out the color found in the top-left corner
+   */
+  private async keyForeground(image: Buffer): Promise<Buffer> {
+    const { data, info } = await sharp(image).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    const bg = { r: data[0], g: data[1], b: data[2] };
+
+    for (let offset = 0; offset < data.length; offset += 4) {
+      const dr = data[offset] - bg.r;
+      const dg = data[offset + 1] - bg.g;
+      const db = data[offset + 2] - bg.b;
+      const dist = Math.sqrt(dr * dr + dg * dg + db * db);
+      const alpha = Math.min(1, Math.max(0, (dist - KEY_TOLERANCE) / KEY_TOLERANCE));
+      data[offset + 3] = Math.round(alpha * 255);
+    }
+
+    return sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } }).png().toBuffer();
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Progress events for the image pipelines, and the CLI's reporters for them
+ *
+ * Pipelines emit a started and a finished (or failed) event around each
+ * step. Reporters write to stderr, so stdout keeps only the result JSON.
+ */
+
+import { describeError } from './errors.js';
+
+export type PipelineStep =
+  | 'generate'       // Single generation call
+  | 'edit'           // Single edit call (including any mask composite)
+  | 'white-pass'     // Two-pass transparency: the image on white
+  | 'black-pass'     // Two-pass transparency: the image on black
+  | 'alpha'          // Difference matting, matte refinement and encoding
+  | 'local-removal'; // Local background removal (no API call)
+
+export interface ProgressEvent {
+  event: 'started' | 'finished' | 'failed';
+  step: PipelineStep;
+  index: number;       // 1-based position of the step in its pipeline
+  total: number;       // Steps in the pipeline
+  timestamp: string;
+  elapsedMs?: number;  // finished/failed
+  path?: string;       // finished: where the step's intermediate was written
+  cached?: boolean;    // finished: present when the response cache is enabled
+  error?: { code: string; message: string }; // failed
+  variant?: number;    // Present for -n variants
+  job?: number;        // Present for batch jobs: index in the manifest
+}
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+export type ProgressMode = 'ndjson' | 'spinner' | 'none';
+
+export const PROGRESS_MODES: ProgressMode[] = ['ndjson', 'spinner', 'none'];
+
+// What a step's result adds to its finished event
+type StepDetails = Pick<ProgressEvent, 'path' | 'cached'>;
+
+/**
+ * Numbers a pipeline's steps and reports each one to the listener
+ */
+export class StepTracker {
+  private index = 0;
+
+  constructor(
+    private readonly onProgress: ProgressListener | undefined,
+    private readonly total: number
+  ) {}
+
+  async run<T>(step: PipelineStep, fn: () => Promise<T>, details?: (result: T) => StepDetails): Promise<T> {
+    const index = ++this.index;
+    if (!this.onProgress) {
+      return fn();
+    }
+    const position = { step, index, total: this.total };
+    const started = Date.now();
+    this.onProgress({ event: 'started', ...position, timestamp: new Date().toISOString() });
+    try {
+      const result = await fn();
+      this.onProgress({
+        event: 'finished',
+        ...position,
+        timestamp: new Date().toISOString(),
+        elapsedMs: Date.now() - started,
+        ...details?.(result),
+      });
+      return result;
+    } catch (err) {
+      this.onProgress({
+        event: 'failed',
+        ...position,
+        timestamp: new Date().toISOString(),
+        elapsedMs: Date.now() - started,
+        error: describeError(err),
+      });
+      throw err;
+    }
+  }
+}
+
+/**
+ * A listener that tags every event with extra fields (variant, batch job)
+ */
+export function tagProgress(
+  onProgress: ProgressListener | undefined,
+  tags: Pick<ProgressEvent, 'variant' | 'job'>
+): ProgressListener | undefined {
+  return onProgress && ((event) => onProgress({ ...event, ...tags }));
+}
+
+export interface ProgressReporter {
+  listener: ProgressListener;
+  stop(): void;
+}
+
+const STEP_LABELS: Record<PipelineStep, string> = {
+  'generate': 'Generating',
+  'edit': 'Editing',
+  'white-pass': 'White background pass',
+  'black-pass': 'Black background pass',
+  'alpha': 'Extracting alpha',
+  'local-removal': 'Removing background',
+};
+
+const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+const SPINNER_INTERVAL_MS = 100;
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function describeStep(event: ProgressEvent): string {
+  const prefix = event.job !== undefined ? `[job ${event.job}] ` : event.variant !== undefined ? `[variant ${event.variant}] ` : '';
+  return `${prefix}${STEP_LABELS[event.step]} (${event.index}/${event.total})`;
+}
+
+/**
+ * One JSON event per line on stderr
+ */
+function ndjsonReporter(): ProgressReporter {
+  return {
+    listener: (event) => process.stderr.write(JSON.stringify(event) + '\n'),
+    stop: () => {},
+  };
+}
+
+/**
+ * A spinner line for the running steps, above which each step is logged
+ * as it finishes
+ */
+function spinnerReporter(): ProgressReporter {
+  const running = new Map<string, { label: string; started: number }>();
+  let frame = 0;
+
+  const clear = () => process.stderr.write('\r\x1b[2K');
+  const render = () => {
+    clear();
+    const steps = [...running.values()];
+    if (steps.length === 0) {
+      return;
+    }
+    const latest = steps[steps.length - 1];
+    const more = steps.length > 1 ? ` +${steps.length - 1} more` : '';
+    process.stderr.write(`${SPINNER_FRAMES[frame++ % SPINNER_FRAMES.length]} ${latest.label} ${seconds(Date.now() - latest.started)}${more}`);
+  };
+  const timer = setInterval(render, SPINNER_INTERVAL_MS);
+  timer.unref();
+
+  return {
+    listener: (event) => {
+      const key = `${event.job ?? ''}:${event.variant ?? ''}:${event.step}`;
+      if (event.event === 'started') {
+        running.set(key, { label: describeStep(event), started: Date.now() });
+      } else {
+        running.delete(key);
+        clear();
+        const elapsed = seconds(event.elapsedMs ?? 0);
+        process.stderr.write(event.event === 'finished'
+          ? `✓ ${describeStep(event)} ${elapsed}${event.cached ? ' (cached)' : ''}${event.path ? ` → ${event.path}` : ''}\n`
+          : `✗ ${describeStep(event)} failed after ${elapsed}: ${event.error?.message}\n`);
+      }
+      render();
+    },
+    stop: () => {
+      clearInterval(timer);
+      clear();
+    },
+  };
+}
+
+/**
+ * Reporter for a --progress mode. Without one, a spinner is shown when
+ * both stdout and stderr are terminals.
+ */
+export function createProgressReporter(mode?: ProgressMode): ProgressReporter | undefined {
+  const resolved = mode || (process.stdout.isTTY && process.stderr.isTTY ? 'spinner' : 'none');
+  switch (resolved) {
+    case 'ndjson':
+      return ndjsonReporter();
+    case 'spinner':
+      return spinnerReporter();
+    default:
+      return undefined;
+  }
+}
@@ -2,16 +2,18 @@
  * Prompt wrappers for specialized image types
  */
 
-export function wrapIconPrompt(userPrompt: string): string {
-  return `${userPrompt}. Minimalist icon design, simple shapes, limited colors, no gradients, flat design, suitable for app icon or UI element, clean edges`;
-}
+export type BuiltinImageType = 'image' | 'icon' | 'logo' | 'ui';
 
-export function wrapLogoPrompt(userPrompt: string): string {
-  return `${userPrompt}. Professional logo design, clean typography if text included, scalable vector-style, memorable and distinctive, balanced composition`;
-}
+// Templates for the built-in image types. {prompt} is the user's prompt.
+export const BUILTIN_TEMPLATES: Record<BuiltinImageType, string> = {
+  image: '{prompt}',
+  icon: '{prompt}. Minimalist icon design, simple shapes, limited colors, no gradients, flat design, suitable for app icon or UI element, clean edges',
+  logo: '{prompt}. Professional logo design, clean typography if text included, scalable vector-style, memorable and distinctive, balanced composition',
+  ui: '{prompt}. UI/UX concept design, clean interface mockup, modern design system aesthetics, proper spacing and alignment',
+};
 
-export function wrapUIPrompt(userPrompt: string): string {
-  return `${userPrompt}. UI/UX concept design, clean interface mockup, modern design system aesthetics, proper spacing and alignment`;
+export function appendStyle(prompt: string, style?: string): string {
+  return style ? `${prompt}. ${style}` : prompt;
 }
 
 export function appendWhiteBackground(prompt: string): string {
@@ -0,0 +1,446 @@
+/**
+ * Provenance metadata - records how an output was made inside the file itself
+ *
+ * PNG outputs get an iTXt chunk holding the JSON record (plus a tEXt
+ * Software chunk); JPEG and WebP outputs get an XMP packet. Chunks and
+ * segments are spliced directly so the image data is never re-encoded.
+ */
+
+import sharp from 'sharp';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { ImageConfig } from './gemini.js';
+import { TransparentMethod } from './alpha.js';
+import { ProviderName } from './provider.js';
+import { HistoryEntry } from './history.js';
+import { Session, SessionStep } from './session.js';
+import { EncodeOptions, detectFormat, encodeImage } from './format.js';
+
+export interface Provenance {
+  tool: string;
+  version: string;
+  createdAt: string;
+  command: string;
+  historyId?: string;    // Entry in the local history ledger, if recorded
+  prompt?: string;       // As sent to the model (wrapped for type)
+  model: string;
+  provider: ProviderName;
+  method?: TransparentMethod;
+  imageConfig?: ImageConfig;
+  input?: string;        // sha256 of the input image
+  references: string[];  // sha256 of each reference image
+  passes?: { white?: string; black?: string }; // sha256 of the pair an `alpha` output was matted from
+  session?: { id: string; step: number; prompts: string[] }; // Present for images exported from a session
+}
+
+export interface InspectResult {
+  path: string;
+  format: string;
+  width?: number;
+  height?: number;
+  provenance: Provenance | null;
+}
+
+const TOOL = 'terminal-banana';
+const PNG_KEYWORD = 'terminal-banana';
+const XMP_NAMESPACE = 'https://github.com/ETM-Code/terminal-banana/ns/1.0/';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+let cachedVersion: string | undefined;
+
+export function getToolVersion(): string {
+  if (!cachedVersion) {
+    try {
+      const pkg = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf-8'));
+      cachedVersion = String(pkg.version);
+    } catch {
+      cachedVersion = 'unknown';
+    }
+  }
+  return cachedVersion;
+}
+
+export function provenanceFromHistory(entry: HistoryEntry): Provenance {
+  return {
+    tool: TOOL,
+    version: getToolVersion(),
+    createdAt: entry.timestamp,
+    command: entry.command,
+    historyId: entry.id,
+    prompt: entry.prompt,
+    model: entry.model,
+    provider: entry.provider,
+    method: entry.method,
+    imageConfig: entry.imageConfig,
+    input: entry.input?.sha256 ?? undefined,
+    references: entry.references.map((file) => file.sha256).filter((hash): hash is string => hash !== null),
+  };
+}
+
+/**
+ * Provenance of a session's image at the end of `path`, with every prompt
+ * that led to it
+ */
+export function provenanceFromSession(session: Session, path: SessionStep[]): Provenance {
+  const prompts = path.map((step) => step.prompt).filter((prompt): prompt is string => prompt !== undefined);
+  return {
+    tool: TOOL,
+    version: getToolVersion(),
+    createdAt: new Date().toISOString(),
+    command: 'session export',
+    prompt: prompts[prompts.length - 1],
+    model: session.model,
+    provider: session.provider,
+    imageConfig: session.imageConfig,
+    references: [],
+    session: { id: session.id, step: path[path.length - 1].id, prompts },
+  };
+}
+
+// --- PNG ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+interface PngChunk {
+  type: string;
+  data: Buffer;
+}
+
+function readPngChunks(buffer: Buffer): PngChunk[] {
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    chunks.push({ type, data: buffer.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+function encodePngChunk(chunk: PngChunk): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(chunk.data.length, 0);
+  header.write(chunk.type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), chunk.data])), 0);
+  return Buffer.concat([header, chunk.data, crc]);
+}
+
+function isOwnPngChunk(chunk: PngChunk): boolean {
+  const keyword = chunk.data.toString('latin1', 0, Math.max(0, chunk.data.indexOf(0)));
+  if (chunk.type === 'iTXt') return keyword === PNG_KEYWORD;
+  if (chunk.type === 'tEXt') return keyword === 'Software' && chunk.data.toString('latin1').includes(`\0${TOOL} `);
+  return false;
+}
+
+function embedPng(buffer: Buffer, provenance: Provenance): Buffer {
+  const chunks = readPngChunks(buffer).filter((chunk) => !isOwnPngChunk(chunk));
+  const software: PngChunk = {
+    type: 'tEXt',
+    data: Buffer.from(`Software\0${TOOL} ${provenance.version}`, 'latin1'),
+  };
+  // keyword, null, compression flag + method, empty language tag and translated keyword
+  const record: PngChunk = {
+    type: 'iTXt',
+    data: Buffer.concat([
+      Buffer.from(`${PNG_KEYWORD}\0\0\0\0\0`, 'latin1'),
+      Buffer.from(JSON.stringify(provenance), 'utf-8'),
+    ]),
+  };
+  const end = chunks.findIndex((chunk) => chunk.type === 'IEND');
+  chunks.splice(end === -1 ? chunks.length : end, 0, software, record);
+  return Buffer.concat([PNG_SIGNATURE, ...chunks.map(encodePngChunk)]);
+}
+
+function readPng(buffer: Buffer): Provenance | null {
+  for (const chunk of readPngChunks(buffer)) {
+    if (chunk.type !== 'iTXt' || !isOwnPngChunk(chunk)) continue;
+    // Skip keyword\0, compression flag/method, language\0, translated keyword\0
+    let offset = chunk.data.indexOf(0) + 3;
+    offset = chunk.data.indexOf(0, offset) + 1;
+    offset = chunk.data.indexOf(0, offset) + 1;
+    return JSON.parse(chunk.data.toString('utf-8', offset)) as Provenance;
+  }
+  return null;
+}
+
+// --- XMP (JPEG and WebP) ---
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+}
+
+function buildXmp(provenance: Provenance): Buffer {
+  return Buffer.from(
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">' +
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    `<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:tbanana="${XMP_NAMESPACE}"` +
+    ` xmp:CreatorTool="${TOOL} ${escapeXml(provenance.version)}" xmp:CreateDate="${escapeXml(provenance.createdAt)}">` +
+    `<tbanana:provenance>${escapeXml(JSON.stringify(provenance))}</tbanana:provenance>` +
+    '</rdf:Description></rdf:RDF></x:xmpmeta>' +
+    '<?xpacket end="w"?>',
+    'utf-8'
+  );
+}
+
+function parseXmp(xmp: Buffer): Provenance | null {
+  const match = xmp.toString('utf-8').match(/<tbanana:provenance>([\s\S]*?)<\/tbanana:provenance>/);
+  return match ? (JSON.parse(unescapeXml(match[1])) as Provenance) : null;
+}
+
+// --- JPEG ---
+
+interface JpegSegment {
+  marker: number;
+  data: Buffer; // Payload after the length field
+}
+
+/**
+ * Header segments up to start-of-scan, plus everything from SOS onwards
+ */
+function readJpegSegments(buffer: Buffer): { segments: JpegSegment[]; rest: Buffer } {
+  const segments: JpegSegment[] = [];
+  let offset = 2; // After SOI
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    if (marker === 0xda) break; // Start of scan
+    const length = buffer.readUInt16BE(offset + 2);
+    segments.push({ marker, data: buffer.subarray(offset + 4, offset + 2 + length) });
+    offset += 2 + length;
+  }
+  return { segments, rest: buffer.subarray(offset) };
+}
+
+function isXmpSegment(segment: JpegSegment): boolean {
+  return segment.marker === 0xe1 && segment.data.toString('latin1', 0, XMP_HEADER.length) === XMP_HEADER;
+}
+
+function embedJpeg(buffer: Buffer, provenance: Provenance): Buffer {
+  const { segments, rest } = readJpegSegments(buffer);
+  const kept = segments.filter((segment) => !(isXmpSegment(segment) && parseXmp(segment.data) !== null));
+  const xmp: JpegSegment = { marker: 0xe1, data: Buffer.concat([Buffer.from(XMP_HEADER, 'latin1'), buildXmp(provenance)]) };
+  if (xmp.data.length + 2 > 0xffff) {
+    throw new Error('Provenance record is too large for a JPEG XMP segment');
+  }
+  // After JFIF/EXIF application segments, before everything else
+  const insertAt = kept.findIndex((segment) => segment.marker !== 0xe0 && segment.marker !== 0xe1);
+  kept.splice(insertAt === -1 ? kept.length : insertAt, 0, xmp);
+
+  const encoded = kept.map((segment) => {
+    const header = Buffer.from([0xff, segment.marker, 0, 0]);
+    header.writeUInt16BE(segment.data.length + 2, 2);
+    return Buffer.concat([header, segment.data]);
+  });
+  return Buffer.concat([buffer.subarray(0, 2), ...encoded, rest]);
+}
+
+function readJpeg(buffer: Buffer): Provenance | null {
+  for (const segment of readJpegSegments(buffer).segments) {
+    if (!isXmpSegment(segment)) continue;
+    const provenance = parseXmp(segment.data.subarray(XMP_HEADER.length));
+    if (provenance) return provenance;
+  }
+  return null;
+}
+
+// --- WebP ---
+
+interface RiffChunk {
+  fourcc: string;
+  data: Buffer;
+}
+
+function readWebpChunks(buffer: Buffer): RiffChunk[] {
+  const chunks: RiffChunk[] = [];
+  let offset = 12; // After 'RIFF' size 'WEBP'
+  while (offset + 8 <= buffer.length) {
+    const fourcc = buffer.toString('latin1', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    chunks.push({ fourcc, data: buffer.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function encodeWebp(chunks: RiffChunk[]): Buffer {
+  const body = Buffer.concat(chunks.map((chunk) => {
+    const header = Buffer.alloc(8);
+    header.write(chunk.fourcc, 0, 'latin1');
+    header.writeUInt32LE(chunk.data.length, 4);
+    return Buffer.concat([header, chunk.data, Buffer.alloc(chunk.data.length % 2)]);
+  }));
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+async function embedWebp(buffer: Buffer, provenance: Provenance): Promise<Buffer> {
+  const chunks = readWebpChunks(buffer).filter((chunk) => !(chunk.fourcc === 'XMP ' && parseXmp(chunk.data) !== null));
+
+  // Metadata needs the extended format; simple files get a VP8X header
+  if (chunks[0]?.fourcc !== 'VP8X') {
+    const { width = 1, height = 1, hasAlpha } = await sharp(buffer).metadata();
+    const vp8x = Buffer.alloc(10);
+    vp8x.writeUIntLE(width - 1, 4, 3);
+    vp8x.writeUIntLE(height - 1, 7, 3);
+    if (hasAlpha) vp8x[0] |= 0x10;
+    chunks.unshift({ fourcc: 'VP8X', data: vp8x });
+  }
+  const vp8x = Buffer.from(chunks[0].data);
+  vp8x[0] |= 0x04; // XMP present
+  chunks[0] = { fourcc: 'VP8X', data: vp8x };
+  chunks.push({ fourcc: 'XMP ', data: buildXmp(provenance) });
+  return encodeWebp(chunks);
+}
+
+function readWebp(buffer: Buffer): Provenance | null {
+  for (const chunk of readWebpChunks(buffer)) {
+    if (chunk.fourcc !== 'XMP ') continue;
+    const provenance = parseXmp(chunk.data);
+    if (provenance) return provenance;
+  }
+  return null;
+}
+
+// --- Public API ---
+
+type Container = 'png' | 'jpeg' | 'webp';
+
+function detectContainer(buffer: Buffer): Container | null {
+  if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) return 'png';
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) return 'jpeg';
+  if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') return 'webp';
+  return null;
+}
+
+/**
+ * Add the provenance record to encoded image bytes. Returns null for
+ * formats that can't carry it (e.g. AVIF).
+ */
+export async function embedProvenanceInBuffer(buffer: Buffer, provenance: Provenance): Promise<Buffer | null> {
+  switch (detectContainer(buffer)) {
+    case 'png':
+      return embedPng(buffer, provenance);
+    case 'jpeg':
+      return embedJpeg(buffer, provenance);
+    case 'webp':
+      return embedWebp(buffer, provenance);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Write the provenance record into an image file in place. Returns false
+ * for formats that can't carry it.
+ */
+export async function embedProvenance(path: string, provenance: Provenance): Promise<boolean> {
+  const embedded = await embedProvenanceInBuffer(readFileSync(path), provenance);
+  if (embedded) {
+    writeFileSync(path, embedded);
+  }
+  return embedded !== null;
+}
+
+/**
+ * Add provenance to bytes encoded under a maxBytes cap. If the record
+ * pushes them over the cap, the image is re-encoded with the record's size
+ * taken off the cap; `overLimit` is set if it is still over.
+ */
+export async function embedProvenanceInBufferWithinCap(
+  plain: Buffer,
+  provenance: Provenance,
+  encoding: EncodeOptions = {}
+): Promise<{ buffer: Buffer; overLimit: boolean }> {
+  const embedded = (await embedProvenanceInBuffer(plain, provenance)) ?? plain;
+  const { maxBytes } = encoding;
+  if (!maxBytes || embedded.length <= maxBytes) {
+    return { buffer: embedded, overLimit: false };
+  }
+  if (plain.length > maxBytes) {
+    // Already the smallest encoding that could be made
+    return { buffer: embedded, overLimit: true };
+  }
+  const overhead = embedded.length - plain.length;
+  const encoded = await encodeImage(plain, {
+    ...encoding,
+    format: encoding.format || (await detectFormat(plain)) || 'png',
+    maxBytes: Math.max(1, maxBytes - overhead),
+  });
+  const buffer = (await embedProvenanceInBuffer(encoded.buffer, provenance)) ?? encoded.buffer;
+  return { buffer, overLimit: buffer.length > maxBytes };
+}
+
+/**
+ * Embed provenance in an output file encoded under a --max-size cap.
+ * Returns true if the file is still over the cap.
+ */
+export async function embedProvenanceWithinCap(
+  path: string,
+  provenance: Provenance,
+  encoding: EncodeOptions = {}
+): Promise<boolean> {
+  const { buffer, overLimit } = await embedProvenanceInBufferWithinCap(readFileSync(path), provenance, encoding);
+  writeFileSync(path, buffer);
+  return overLimit;
+}
+
+export function readProvenance(buffer: Buffer): Provenance | null {
+  try {
+    switch (detectContainer(buffer)) {
+      case 'png':
+        return readPng(buffer);
+      case 'jpeg':
+        return readJpeg(buffer);
+      case 'webp':
+        return readWebp(buffer);
+      default:
+        return null;
+    }
+  } catch {
+    // Corrupt or foreign metadata
+    return null;
+  }
+}
+
+export async function inspectImage(path: string): Promise<InspectResult> {
+  if (!existsSync(path)) {
+    throw new Error(`File not found: ${path}`);
+  }
+  const buffer = readFileSync(path);
+  const { format = 'unknown', width, height } = await sharp(buffer).metadata();
+  return {
+    path: resolve(path),
+    format: (await detectFormat(buffer)) ?? format,
+    width,
+    height,
+    provenance: readProvenance(buffer),
+  };
+}
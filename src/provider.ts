@@ -0,0 +1,126 @@
+/**
+ * Image provider abstraction - the backend that generates and edits images
+ */
+
+import { loadConfig } from './config.js';
+import { Model, AspectRatio, ImageSize, ImageConfig, GeminiProvider } from './gemini.js';
+import { MockProvider } from './mock.js';
+import { RetryOptions } from './retry.js';
+
+export type ProviderName = 'gemini' | 'mock';
+
+export const PROVIDER_NAMES: ProviderName[] = ['gemini', 'mock'];
+
+export interface ProviderCapabilities {
+  maxReferenceImages: number;
+  supportedSizes: ImageSize[];
+  supportedAspectRatios: AspectRatio[];
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  model: Model;
+  config?: ImageConfig;
+  referenceImages?: Buffer[];
+  retry?: Partial<RetryOptions>;
+  variant?: number; // Distinguishes otherwise identical requests made with -n
+  signal?: AbortSignal;
+}
+
+export interface EditRequest {
+  image: Buffer;
+  prompt: string;
+  model: Model;
+  config?: ImageConfig;
+  retry?: Partial<RetryOptions>;
+  signal?: AbortSignal;
+}
+
+export interface ConversationPart {
+  text?: string;
+  image?: Buffer;
+  thoughtSignature?: string; // Opaque model state that must be sent back on later turns
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  parts: ConversationPart[];
+}
+
+export interface ChatRequest {
+  history: ConversationTurn[]; // Earlier turns, oldest first
+  prompt: string;
+  image?: Buffer;              // Sent along with the prompt (e.g. the image a session starts from)
+  model: Model;
+  config?: ImageConfig;
+  retry?: Partial<RetryOptions>;
+  signal?: AbortSignal;
+}
+
+export interface ChatResponse {
+  image: Buffer;
+  turn: ConversationTurn; // The model's turn, to be replayed in later requests
+}
+
+export interface ImageProvider {
+  readonly name: ProviderName;
+  capabilities(model: Model): ProviderCapabilities;
+  generate(request: GenerateRequest): Promise<Buffer>;
+  edit(request: EditRequest): Promise<Buffer>;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+export function isProviderName(name: string): name is ProviderName {
+  return (PROVIDER_NAMES as string[]).includes(name);
+}
+
+/**
+ * Provider name to use: explicit choice > config file > gemini
+ */
+export function resolveProviderName(name?: ProviderName): ProviderName {
+  return name || loadConfig()?.provider || 'gemini';
+}
+
+/**
+ * A new provider instance. `apiKey` only applies to gemini.
+ */
+export function createProvider(name: ProviderName, options: { apiKey?: string; background?: string } = {}): ImageProvider {
+  return name === 'mock'
+    ? new MockProvider({ background: options.background })
+    : new GeminiProvider({ apiKey: options.apiKey });
+}
+
+// Providers are reused so the mock can recognise images it produced earlier
+const providers = new Map<ProviderName, ImageProvider>();
+
+export function getProvider(name?: ProviderName): ImageProvider {
+  const resolved = resolveProviderName(name);
+  let provider = providers.get(resolved);
+  if (!provider) {
+    provider = createProvider(resolved, { background: loadConfig()?.mock?.background });
+    providers.set(resolved, provider);
+  }
+  return provider;
+}
+
+/**
+ * Check a generation request against what the provider/model supports
+ */
+export function assertCapabilities(
+  provider: ImageProvider,
+  model: Model,
+  config?: ImageConfig,
+  referenceImages?: Buffer[]
+): void {
+  const caps = provider.capabilities(model);
+  const refCount = referenceImages?.length || 0;
+  if (refCount > caps.maxReferenceImages) {
+    throw new Error(`Too many reference images for ${model}: ${refCount}. Maximum is ${caps.maxReferenceImages}`);
+  }
+  if (config?.imageSize && !caps.supportedSizes.includes(config.imageSize)) {
+    throw new Error(`Resolution ${config.imageSize} is not supported by ${model}. Supported: ${caps.supportedSizes.join(', ')}`);
+  }
+  if (config?.aspectRatio && !caps.supportedAspectRatios.includes(config.aspectRatio)) {
+    throw new Error(`Aspect ratio ${config.aspectRatio} is not supported by ${model}`);
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Retry with exponential backoff and jitter for transient API failures
+ */
+
+import { loadConfig } from './config.js';
+import { AbortedError, classifyError, throwIfAborted } from './errors.js';
+
+export interface RetryOptions {
+  maxRetries: number;   // Retries after the first attempt (0 disables retrying)
+  baseDelayMs: number;  // Delay before the first retry, doubled each attempt
+  maxDelayMs: number;   // Upper bound on the computed backoff delay
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Merge retry settings: explicit overrides > config file > defaults
+ */
+export function resolveRetryOptions(overrides: Partial<RetryOptions> = {}): RetryOptions {
+  const fromConfig = loadConfig()?.retry || {};
+  return {
+    maxRetries: overrides.maxRetries ?? fromConfig.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries,
+    baseDelayMs: overrides.baseDelayMs ?? fromConfig.baseDelayMs ?? DEFAULT_RETRY_OPTIONS.baseDelayMs,
+    maxDelayMs: overrides.maxDelayMs ?? fromConfig.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs,
+  };
+}
+
+/**
+ * Full-jitter backoff: random delay in [0, min(max, base * 2^attempt)]
+ */
+function backoffDelay(attempt: number, options: RetryOptions): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Wait `ms`, rejecting early with an AbortedError if `signal` fires
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `fn`, retrying retryable failures. Errors are always rethrown as
+ * classified BananaErrors. A server-provided retry delay takes precedence
+ * over the computed backoff when it is longer. Aborting `signal` stops
+ * both the attempt in flight and any further retries.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  overrides: Partial<RetryOptions> = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const options = resolveRetryOptions(overrides);
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await fn();
+    } catch (err) {
+      throwIfAborted(signal);
+      const error = classifyError(err);
+      if (!error.retryable || attempt >= options.maxRetries) {
+        throw error;
+      }
+      await sleep(Math.max(error.retryAfterMs ?? 0, backoffDelay(attempt, options)), signal);
+    }
+  }
+}
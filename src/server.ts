@@ -0,0 +1,391 @@
+/**
+ * HTTP server mode - the job commands as REST endpoints, backed by an
+ * in-process queue with a concurrency limit
+ *
+ *   POST   /generate, /edit, /transparent, /edit-transparent   Submit a job
+ *   GET    /jobs                                              List jobs
+ *   GET    /jobs/:id                                          Job status and result
+ *   GET    /jobs/:id/result[?index=n]                         Download an output
+ *   DELETE /jobs/:id                                          Cancel a job
+ *
+ * Jobs take the same fields as batch manifest entries, as a JSON body or
+ * multipart form fields. Multipart uploads go in `image` (the input),
+ * `mask` and `reference` (repeatable). Each job writes to its own directory
+ * under the server's output directory, and may read input files only from
+ * there. Only the most recent finished jobs are kept; older ones are
+ * forgotten and their directories deleted.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { randomBytes } from 'crypto';
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { extname, join, resolve, sep } from 'path';
+import { ParsedArgs, parseArgs } from './args.js';
+import { BatchJobSpec, specToArgs } from './batch.js';
+import { JobCommand, CommandResult, runCommand, validateJob } from './jobs.js';
+import { planJob } from './dryrun.js';
+import { describeError } from './errors.js';
+import { detectFormat } from './format.js';
+import { withDefaults } from './settings.js';
+import { ensureDir } from './utils.js';
+
+export type ServerJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ServerJob {
+  id: string;
+  command: JobCommand;
+  status: ServerJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: CommandResult;                     // Present once succeeded
+  downloads?: string[];                       // Present once succeeded: result URLs, one per output
+  error?: { code: string; message: string };  // Present once failed
+}
+
+export interface ServerOptions {
+  port?: number;
+  host?: string;
+  outputDir: string;
+  concurrency?: number;
+  keepJobs?: number; // Finished jobs to keep (default: DEFAULT_SERVER_KEEP_JOBS)
+  onJobFinished?: (job: ServerJob) => void;
+}
+
+export const SERVE_COMMANDS: JobCommand[] = ['generate', 'edit', 'transparent', 'edit-transparent'];
+
+export const DEFAULT_SERVER_PORT = 8787;
+export const DEFAULT_SERVER_HOST = '127.0.0.1';
+export const DEFAULT_SERVER_CONCURRENCY = 2;
+export const DEFAULT_SERVER_KEEP_JOBS = 100;
+
+// Uploads are held in memory while the request is parsed
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+
+// Manifest fields a client may set; the output directory is always the server's
+const SPEC_FIELDS = [
+  'args', 'prompt', 'inputImage', 'referenceImages', 'mask', 'method', 'model',
+  'resolution', 'aspectRatio', 'bgColor', 'tolerance', 'name',
+];
+
+// Flags that name files; files come from uploads instead
+const PATH_FLAGS = ['-o', '-i', '-r', '--mask', '--resume'];
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly code: string = 'ERROR') {
+    super(message);
+  }
+}
+
+interface QueueEntry {
+  job: ServerJob;
+  dir: string;
+  controller: AbortController;
+  run: () => Promise<CommandResult>;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolvePromise, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, `Request body larger than ${MAX_BODY_BYTES / 1024 / 1024} MB`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolvePromise(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Job fields from a JSON or multipart body. Uploaded files are written to
+ * `inputDir` and referenced by path.
+ */
+async function parseSubmission(
+  command: JobCommand,
+  req: IncomingMessage,
+  body: Buffer,
+  inputDir: string
+): Promise<BatchJobSpec> {
+  const contentType = req.headers['content-type'] || '';
+  let fields: Record<string, unknown> = {};
+
+  if (contentType.startsWith('multipart/form-data')) {
+    const form = await new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': contentType },
+      body: new Uint8Array(body),
+    }).formData();
+    const references: string[] = [];
+    let uploads = 0;
+    for (const [key, value] of form.entries()) {
+      if (typeof value === 'string') {
+        fields[key] = key === 'args' ? JSON.parse(value) : value;
+        continue;
+      }
+      if (key !== 'image' && key !== 'mask' && key !== 'reference') {
+        throw new HttpError(400, `Unexpected file field: ${key}. Use image, mask or reference`);
+      }
+      ensureDir(inputDir);
+      const path = join(inputDir, `${key}_${++uploads}${extname(value.name) || '.png'}`);
+      writeFileSync(path, Buffer.from(await value.arrayBuffer()));
+      if (key === 'image') {
+        fields.inputImage = path;
+      } else if (key === 'mask') {
+        fields.mask = path;
+      } else {
+        references.push(path);
+      }
+    }
+    if (references.length > 0) {
+      fields.referenceImages = references;
+    }
+  } else if (body.length > 0) {
+    const json = JSON.parse(body.toString('utf-8')) as unknown;
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+      throw new HttpError(400, 'Job must be a JSON object');
+    }
+    fields = json as Record<string, unknown>;
+  }
+
+  for (const key of Object.keys(fields)) {
+    if (!SPEC_FIELDS.includes(key)) {
+      throw new HttpError(400, `Unknown field: ${key}`);
+    }
+  }
+  return { ...fields, command };
+}
+
+/**
+ * CLI arguments for a submission: raw `args`, then the named fields,
+ * including uploads. Raw args may not name files, and output names may not
+ * contain a directory (the CLI would silently drop it).
+ */
+function submissionArgs(spec: BatchJobSpec): string[] {
+  let args = specToArgs(spec);
+  if (spec.args) {
+    const flag = args.find((arg) => PATH_FLAGS.includes(arg));
+    if (flag) {
+      throw new HttpError(400, `${flag} is not available from the server. Upload files as image, mask or reference`);
+    }
+    args = [...args, ...specToArgs({ ...spec, args: undefined })];
+  }
+  args.forEach((arg, i) => {
+    const name = args[i + 1];
+    if (arg === '--name' && name !== undefined && (/[\\/]/.test(name) || name === '.' || name === '..')) {
+      throw new HttpError(400, `Invalid name: ${name}. Use a filename without a directory`);
+    }
+  });
+  return args;
+}
+
+/**
+ * Reject input paths outside the job directory
+ */
+function assertWithinJobDir(parsed: ParsedArgs, dir: string): void {
+  const root = resolve(dir) + sep;
+  const inputs = [parsed.inputImage, parsed.mask, parsed.resume, ...(parsed.referenceImages || [])];
+  for (const path of inputs) {
+    if (path !== undefined && !resolve(path).startsWith(root)) {
+      throw new HttpError(400, `Input not in the job directory: ${path}. Upload files as image, mask or reference`);
+    }
+  }
+}
+
+function outputPaths(result: CommandResult): string[] {
+  return 'paths' in result ? [...result.paths, ...(result.sheet ? [result.sheet] : [])] : [result.path];
+}
+
+/**
+ * Start the server. Resolves once it is listening.
+ */
+export function startServer(options: ServerOptions): Promise<Server> {
+  const outputDir = resolve(options.outputDir);
+  const concurrency = options.concurrency || DEFAULT_SERVER_CONCURRENCY;
+  const keepJobs = options.keepJobs ?? DEFAULT_SERVER_KEEP_JOBS;
+  const entries = new Map<string, QueueEntry>();
+  const queue: QueueEntry[] = [];
+  const finished: QueueEntry[] = []; // Oldest first
+  let running = 0;
+
+  const finish = (entry: QueueEntry, update: Partial<ServerJob>): void => {
+    Object.assign(entry.job, update, { finishedAt: new Date().toISOString() });
+    finished.push(entry);
+    while (finished.length > keepJobs) {
+      const evicted = finished.shift()!;
+      entries.delete(evicted.job.id);
+      rmSync(evicted.dir, { recursive: true, force: true });
+    }
+    options.onJobFinished?.(entry.job);
+  };
+
+  const pump = (): void => {
+    while (running < concurrency && queue.length > 0) {
+      const entry = queue.shift()!;
+      running++;
+      entry.job.status = 'running';
+      entry.job.startedAt = new Date().toISOString();
+      entry.run().then(
+        (result) => {
+          // A job cancelled after its last API call still finishes; its outputs are discarded
+          if (entry.job.status === 'cancelled') {
+            rmSync(entry.dir, { recursive: true, force: true });
+            return;
+          }
+          finish(entry, {
+            status: 'succeeded',
+            result,
+            downloads: outputPaths(result).map((_, index) => `/jobs/${entry.job.id}/result?index=${index}`),
+          });
+        },
+        (err) => {
+          if (entry.job.status === 'cancelled') {
+            rmSync(entry.dir, { recursive: true, force: true });
+            return;
+          }
+          finish(entry, { status: 'failed', error: describeError(err) });
+        }
+      ).finally(() => {
+        running--;
+        pump();
+      });
+    }
+  };
+
+  const submit = async (command: JobCommand, req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const id = randomBytes(4).toString('hex');
+    const dir = join(outputDir, id);
+    const body = await readBody(req);
+
+    try {
+      const spec = await parseSubmission(command, req, body, join(dir, 'inputs'));
+      const parsed = parseArgs(submissionArgs(spec));
+      if (spec.prompt !== undefined) {
+        parsed.prompt = String(spec.prompt);
+      }
+      assertWithinJobDir(parsed, dir);
+      if (parsed.open || parsed.showCost || parsed.progress) {
+        throw new HttpError(400, '--open, --cost and --progress are not available from the server');
+      }
+      const job = withDefaults(command, { ...parsed, outputDir: dir });
+      validateJob(command, job);
+
+      if (job.dryRun) {
+        rmSync(dir, { recursive: true, force: true });
+        sendJson(res, 200, await planJob(command, job));
+        return;
+      }
+
+      const controller = new AbortController();
+      const entry: QueueEntry = {
+        job: { id, command, status: 'queued', createdAt: new Date().toISOString() },
+        dir,
+        controller,
+        run: () => runCommand(command, job, { signal: controller.signal }),
+      };
+      entries.set(id, entry);
+      queue.push(entry);
+      pump();
+      res.setHeader('Location', `/jobs/${id}`);
+      sendJson(res, 202, entry.job);
+    } catch (err) {
+      rmSync(dir, { recursive: true, force: true });
+      if (err instanceof HttpError) {
+        throw err;
+      }
+      throw new HttpError(400, describeError(err).message, describeError(err).code);
+    }
+  };
+
+  const getEntry = (id: string): QueueEntry => {
+    const entry = entries.get(id);
+    if (!entry) {
+      throw new HttpError(404, `Unknown job: ${id}`, 'NOT_FOUND');
+    }
+    return entry;
+  };
+
+  const download = async (entry: QueueEntry, index: number, res: ServerResponse): Promise<void> => {
+    const { job } = entry;
+    if (job.status !== 'succeeded' || !job.result) {
+      throw new HttpError(409, `Job ${job.id} is ${job.status}`, 'NOT_READY');
+    }
+    const path = outputPaths(job.result)[index];
+    if (!path || !existsSync(path)) {
+      throw new HttpError(404, `Job ${job.id} has no output ${index}`, 'NOT_FOUND');
+    }
+    const buffer = readFileSync(path);
+    const format = await detectFormat(buffer);
+    res.writeHead(200, {
+      'Content-Type': format ? `image/${format}` : 'application/octet-stream',
+      'Content-Length': buffer.length,
+      'Content-Disposition': `attachment; filename="${path.split(/[\\/]/).pop()}"`,
+    });
+    res.end(buffer);
+  };
+
+  const cancel = (entry: QueueEntry): ServerJob => {
+    const { job } = entry;
+    if (job.status !== 'queued' && job.status !== 'running') {
+      throw new HttpError(409, `Job ${job.id} already ${job.status}`, 'ALREADY_FINISHED');
+    }
+    if (job.status === 'queued') {
+      queue.splice(queue.indexOf(entry), 1);
+      rmSync(entry.dir, { recursive: true, force: true });
+    } else {
+      entry.controller.abort();
+    }
+    finish(entry, { status: 'cancelled' });
+    return job;
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean);
+
+    if (req.method === 'POST' && parts.length === 1 && (SERVE_COMMANDS as string[]).includes(parts[0])) {
+      return submit(parts[0] as JobCommand, req, res);
+    }
+    if (parts[0] === 'jobs') {
+      if (req.method === 'GET' && parts.length === 1) {
+        return sendJson(res, 200, [...entries.values()].map((entry) => entry.job));
+      }
+      if (req.method === 'GET' && parts.length === 2) {
+        return sendJson(res, 200, getEntry(parts[1]).job);
+      }
+      if (req.method === 'GET' && parts.length === 3 && parts[2] === 'result') {
+        return download(getEntry(parts[1]), Number(url.searchParams.get('index') || 0), res);
+      }
+      if (req.method === 'DELETE' && parts.length === 2) {
+        return sendJson(res, 200, cancel(getEntry(parts[1])));
+      }
+    }
+    throw new HttpError(404, `No route for ${req.method} ${url.pathname}`, 'NOT_FOUND');
+  };
+
+  const server = createServer((req, res) => {
+    route(req, res).catch((err) => {
+      const status = err instanceof HttpError ? err.status : 500;
+      const { code, message } = err instanceof HttpError ? err : describeError(err);
+      if (!res.headersSent) {
+        sendJson(res, status, { error: { code, message } });
+      }
+    });
+  });
+
+  ensureDir(outputDir);
+  return new Promise((resolvePromise, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? DEFAULT_SERVER_PORT, options.host || DEFAULT_SERVER_HOST, () => resolvePromise(server));
+  });
+}
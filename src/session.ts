@@ -0,0 +1,366 @@
+/**
+ * Multi-turn editing sessions - conversation turns and every intermediate
+ * image persisted on disk, so each edit is sent with the full history
+ *
+ * Steps form a tree: undo moves the head back to an earlier step and the
+ * next edit branches from there. Only the turns on the path from the first
+ * step to the head are sent to the model.
+ */
+
+import { randomBytes } from 'crypto';
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { getConfigDir } from './config.js';
+import { Model, ImageConfig } from './gemini.js';
+import { ConversationTurn, ImageProvider, ProviderName, assertCapabilities, getProvider } from './provider.js';
+import { ParsedArgs } from './args.js';
+import { recordRun } from './jobs.js';
+import { getJobCost } from './cost.js';
+import { hashFile } from './history.js';
+import { RetryOptions } from './retry.js';
+import { EncodeOptions, detectFormat, extensionFor, withExtension, writeImage } from './format.js';
+import { embedProvenanceWithinCap, provenanceFromSession } from './provenance.js';
+import { ensureDir } from './utils.js';
+
+export interface SessionPart {
+  text?: string;
+  image?: string;            // Image file name inside the session directory
+  thoughtSignature?: string;
+}
+
+export interface SessionTurn {
+  role: 'user' | 'model';
+  parts: SessionPart[];
+}
+
+export interface SessionStep {
+  id: number;
+  parent: number | null;     // null for the first step
+  prompt?: string;           // Absent for a session started from an existing image
+  image: string;             // Image file name inside the session directory
+  turns: SessionTurn[];      // The user and model turns that produced this step
+  createdAt: string;
+}
+
+export interface Session {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  model: Model;
+  provider: ProviderName;
+  imageConfig?: ImageConfig;
+  head: number;
+  steps: SessionStep[];
+}
+
+export interface SessionSummary {
+  id: string;
+  model: Model;
+  provider: ProviderName;
+  imageConfig?: ImageConfig;
+  createdAt: string;
+  updatedAt: string;
+  head: number;
+  image: string; // Current image
+  steps: { id: number; parent: number | null; prompt?: string; image: string; createdAt: string }[];
+}
+
+export interface SessionExportResult {
+  path: string;
+  session: string;
+  step: number;
+  overSizeLimit?: boolean; // Present when --max-size couldn't be met
+}
+
+const SESSION_FILE = 'session.json';
+
+export function getSessionsDir(): string {
+  return join(getConfigDir(), 'sessions');
+}
+
+function getSessionDir(id: string): string {
+  return join(getSessionsDir(), id);
+}
+
+function saveSession(session: Session): void {
+  session.updatedAt = new Date().toISOString();
+  writeFileSync(join(getSessionDir(session.id), SESSION_FILE), JSON.stringify(session, null, 2));
+}
+
+/**
+ * All sessions, most recently updated first
+ */
+export function listSessions(): Session[] {
+  const dir = getSessionsDir();
+  if (!existsSync(dir)) {
+    return [];
+  }
+  const sessions: Session[] = [];
+  for (const id of readdirSync(dir)) {
+    try {
+      sessions.push(JSON.parse(readFileSync(join(dir, id, SESSION_FILE), 'utf-8')) as Session);
+    } catch {
+      // Skip anything that isn't a readable session
+    }
+  }
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Find a session by id or unique id prefix
+ */
+export function loadSession(id: string): Session {
+  const matches = listSessions().filter((session) => session.id.startsWith(id));
+  if (matches.length === 0) {
+    throw new Error(`Session not found: ${id}`);
+  }
+  if (matches.length > 1 && !matches.some((session) => session.id === id)) {
+    throw new Error(`Ambiguous session id: ${id} matches ${matches.length} sessions`);
+  }
+  return matches.find((session) => session.id === id) || matches[0];
+}
+
+function getStep(session: Session, id: number): SessionStep {
+  const step = session.steps.find((s) => s.id === id);
+  if (!step) {
+    throw new Error(`Session ${session.id} has no step ${id}`);
+  }
+  return step;
+}
+
+/**
+ * Steps from the first one down to `id` (default: the head)
+ */
+export function stepPath(session: Session, id: number = session.head): SessionStep[] {
+  const path: SessionStep[] = [];
+  for (let step: SessionStep | null = getStep(session, id); step; step = step.parent === null ? null : getStep(session, step.parent)) {
+    path.unshift(step);
+  }
+  return path;
+}
+
+export function sessionImagePath(session: Session, id: number = session.head): string {
+  return resolve(join(getSessionDir(session.id), getStep(session, id).image));
+}
+
+export function summarizeSession(session: Session): SessionSummary {
+  return {
+    id: session.id,
+    model: session.model,
+    provider: session.provider,
+    imageConfig: session.imageConfig,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    head: session.head,
+    image: sessionImagePath(session),
+    steps: session.steps.map((step) => ({
+      id: step.id,
+      parent: step.parent,
+      prompt: step.prompt,
+      image: sessionImagePath(session, step.id),
+      createdAt: step.createdAt,
+    })),
+  };
+}
+
+async function storeImage(session: Session, name: string, buffer: Buffer): Promise<string> {
+  const filename = `${name}${extensionFor((await detectFormat(buffer)) || 'png')}`;
+  writeFileSync(join(getSessionDir(session.id), filename), buffer);
+  return filename;
+}
+
+/**
+ * Conversation for a request made from the given path of steps, with
+ * image files loaded back into memory
+ */
+function loadConversation(session: Session, path: SessionStep[]): ConversationTurn[] {
+  const dir = getSessionDir(session.id);
+  return path.flatMap((step) => step.turns).map((turn) => ({
+    role: turn.role,
+    parts: turn.parts.map((part) => ({
+      text: part.text,
+      image: part.image ? readFileSync(join(dir, part.image)) : undefined,
+      thoughtSignature: part.thoughtSignature,
+    })),
+  }));
+}
+
+/**
+ * Send `prompt` with the history up to the head and record the reply as a
+ * new step, which becomes the head. Each step is budget-checked and
+ * recorded in history like a job, priced as an edit.
+ */
+async function addStep(
+  command: 'session start' | 'session edit',
+  session: Session,
+  prompt: string,
+  options: { imageConfig?: ImageConfig; retry?: Partial<RetryOptions>; provider?: ImageProvider }
+): Promise<Session> {
+  const provider = options.provider || getProvider(session.provider);
+  const imageConfig = options.imageConfig || session.imageConfig;
+  assertCapabilities(provider, session.model, imageConfig);
+
+  const parent = session.steps.length > 0 ? getStep(session, session.head) : null;
+  const parsed: ParsedArgs = {
+    prompt,
+    model: session.model,
+    provider: provider.name,
+    resolution: imageConfig?.imageSize,
+    aspectRatio: imageConfig?.aspectRatio,
+  };
+  return recordRun(
+    command,
+    parsed,
+    getJobCost('edit', parsed),
+    () => sendStep(session, parent, prompt, provider, imageConfig, options.retry),
+    () => ({
+      outputs: [sessionImagePath(session)],
+      input: parent ? hashFile(sessionImagePath(session, parent.id)) : undefined,
+    })
+  );
+}
+
+async function sendStep(
+  session: Session,
+  parent: SessionStep | null,
+  prompt: string,
+  provider: ImageProvider,
+  imageConfig: ImageConfig | undefined,
+  retry: Partial<RetryOptions> | undefined
+): Promise<Session> {
+  const path = parent ? stepPath(session) : [];
+  // A session started from a file has no turns yet: its image goes with the first prompt
+  const startImage = parent && parent.turns.length === 0 ? parent.image : undefined;
+
+  const { image, turn } = await provider.chat({
+    history: loadConversation(session, path),
+    prompt,
+    image: startImage ? readFileSync(join(getSessionDir(session.id), startImage)) : undefined,
+    model: session.model,
+    config: imageConfig,
+    retry,
+  });
+
+  const id = session.steps.length;
+  const stepImage = await storeImage(session, `step_${id}`, image);
+  const modelParts: SessionPart[] = [];
+  for (const [index, part] of turn.parts.entries()) {
+    if (part.image) {
+      const file = part.image.equals(image) ? stepImage : await storeImage(session, `step_${id}_part_${index}`, part.image);
+      modelParts.push({ image: file, thoughtSignature: part.thoughtSignature });
+    } else {
+      modelParts.push({ text: part.text, thoughtSignature: part.thoughtSignature });
+    }
+  }
+
+  session.steps.push({
+    id,
+    parent: parent ? parent.id : null,
+    prompt,
+    image: stepImage,
+    turns: [
+      { role: 'user', parts: startImage ? [{ image: startImage }, { text: prompt }] : [{ text: prompt }] },
+      { role: 'model', parts: modelParts },
+    ],
+    createdAt: new Date().toISOString(),
+  });
+  session.head = id;
+  saveSession(session);
+  return session;
+}
+
+/**
+ * Start a session from an existing image, a prompt, or both (the prompt
+ * is then the first edit of the image)
+ */
+export async function startSession(options: {
+  inputImage?: string;
+  prompt?: string;
+  model?: Model;
+  imageConfig?: ImageConfig;
+  retry?: Partial<RetryOptions>;
+  provider?: ImageProvider;
+}): Promise<Session> {
+  if (!options.inputImage && !options.prompt) {
+    throw new Error('A session needs a starting image (-i) or a prompt');
+  }
+  if (options.inputImage && !existsSync(options.inputImage)) {
+    throw new Error(`Input file not found: ${options.inputImage}`);
+  }
+
+  const provider = options.provider || getProvider();
+  const now = new Date().toISOString();
+  const session: Session = {
+    id: randomBytes(4).toString('hex'),
+    createdAt: now,
+    updatedAt: now,
+    model: options.model || 'nano-banana-pro',
+    provider: provider.name,
+    imageConfig: options.imageConfig,
+    head: 0,
+    steps: [],
+  };
+  assertCapabilities(provider, session.model, session.imageConfig);
+  ensureDir(getSessionDir(session.id));
+
+  if (options.inputImage) {
+    const image = await storeImage(session, 'step_0', readFileSync(options.inputImage));
+    session.steps.push({ id: 0, parent: null, image, turns: [], createdAt: now });
+    saveSession(session);
+  }
+  if (options.prompt) {
+    return addStep('session start', session, options.prompt, options);
+  }
+  return session;
+}
+
+export async function editSession(
+  id: string,
+  prompt: string,
+  options: { imageConfig?: ImageConfig; retry?: Partial<RetryOptions>; provider?: ImageProvider } = {}
+): Promise<Session> {
+  return addStep('session edit', loadSession(id), prompt, options);
+}
+
+/**
+ * Move the head back to the previous step, or to any earlier step. The
+ * steps after it are kept, so undo never loses work.
+ */
+export function undoSession(id: string, to?: number): Session {
+  const session = loadSession(id);
+  const target = to ?? getStep(session, session.head).parent;
+  if (target === null) {
+    throw new Error(`Nothing to undo: session ${session.id} is at its first step`);
+  }
+  getStep(session, target);
+  session.head = target;
+  saveSession(session);
+  return session;
+}
+
+/**
+ * Write the current image to `outputDir`, converted and tagged like any
+ * other output
+ */
+export async function exportSession(
+  id: string,
+  outputDir: string,
+  options: { filename?: string; encoding?: EncodeOptions; stripMetadata?: boolean } = {}
+): Promise<SessionExportResult> {
+  const session = loadSession(id);
+  ensureDir(outputDir);
+
+  const source = readFileSync(sessionImagePath(session));
+  const format = options.encoding?.format || (await detectFormat(source)) || 'png';
+  const outputPath = resolve(join(outputDir, withExtension(options.filename || `session_${session.id}_${session.head}`, format)));
+  const encoded = await writeImage(source, outputPath, options.encoding);
+  const overSizeLimit = !options.stripMetadata &&
+    await embedProvenanceWithinCap(outputPath, provenanceFromSession(session, stepPath(session)), options.encoding);
+
+  return {
+    path: outputPath,
+    session: session.id,
+    step: session.head,
+    overSizeLimit: encoded.overLimit || overSizeLimit || undefined,
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Option defaults - merged from a project .tbananarc.json, the active
+ * profile and the config file
+ *
+ * Precedence per option: command line > --brand kit > project file >
+ * profile > config.
+ * The project file is found by walking up from the working directory.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import { Defaults, SettingSource, getActiveProfile, getActiveProfileName, loadConfig } from './config.js';
+import { ParsedArgs, parseArgs } from './args.js';
+import { JobCommand, getImageType } from './jobs.js';
+import { getBrand } from './brand.js';
+import { uniqueTimestamp } from './utils.js';
+
+export const PROJECT_FILE = '.tbananarc.json';
+
+export type ResolvedDefaults = { [K in keyof Defaults]?: SettingSource<NonNullable<Defaults[K]>> };
+
+const DEFAULT_KEYS: (keyof Defaults)[] = ['model', 'method', 'resolution', 'aspectRatio', 'outputDir', 'name', 'keepIntermediates'];
+
+/**
+ * Nearest .tbananarc.json at or above `from`, or null
+ */
+export function findProjectFile(from: string = process.cwd()): string | null {
+  let dir = resolve(from);
+  for (;;) {
+    const candidate = join(dir, PROJECT_FILE);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Check defaults with the same rules as command-line flags
+ */
+function checkDefaults(defaults: Defaults, origin: string): Defaults {
+  const flags: [string, unknown][] = [
+    ['--model', defaults.model],
+    ['--method', defaults.method],
+    ['--resolution', defaults.resolution],
+    ['--aspect-ratio', defaults.aspectRatio],
+  ];
+  const args: string[] = [];
+  for (const [flag, value] of flags) {
+    if (value !== undefined) {
+      args.push(flag, String(value));
+    }
+  }
+  try {
+    parseArgs(args);
+  } catch (err) {
+    throw new Error(`Invalid defaults in ${origin}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return defaults;
+}
+
+/**
+ * Defaults from the project file. A relative outputDir is taken relative
+ * to the file, not the working directory.
+ */
+export function loadProjectDefaults(): { path: string; defaults: Defaults } | null {
+  const path = findProjectFile();
+  if (!path) {
+    return null;
+  }
+  let defaults: Defaults;
+  try {
+    defaults = JSON.parse(readFileSync(path, 'utf-8')) as Defaults;
+  } catch (err) {
+    throw new Error(`Invalid ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (defaults.outputDir) {
+    defaults.outputDir = resolve(dirname(path), defaults.outputDir);
+  }
+  return { path, defaults: checkDefaults(defaults, path) };
+}
+
+/**
+ * Every default that applies, with the layer it came from
+ */
+export function resolveDefaults(): ResolvedDefaults {
+  const layers: { source: string; defaults?: Defaults }[] = [];
+  const project = loadProjectDefaults();
+  if (project) {
+    layers.push({ source: `project:${project.path}`, defaults: project.defaults });
+  }
+  const profileName = getActiveProfileName();
+  const profile = getActiveProfile();
+  if (profileName && profile?.defaults) {
+    layers.push({ source: `profile:${profileName.value}`, defaults: checkDefaults(profile.defaults, `profile ${profileName.value}`) });
+  }
+  const config = loadConfig()?.defaults;
+  if (config) {
+    layers.push({ source: 'config', defaults: checkDefaults(config, 'config') });
+  }
+
+  const resolved: Record<string, SettingSource<unknown>> = {};
+  for (const key of DEFAULT_KEYS) {
+    const layer = layers.find((l) => l.defaults?.[key] !== undefined);
+    if (layer) {
+      resolved[key] = { value: layer.defaults![key], source: layer.source };
+    }
+  }
+  return resolved as ResolvedDefaults;
+}
+
+/**
+ * Expand a filename template: {command}, {type}, {date} (YYYY-MM-DD) and
+ * {timestamp} (unique per output)
+ */
+export function expandNameTemplate(template: string, command: JobCommand, parsed?: ParsedArgs): string {
+  return basename(template
+    .replace(/\{command\}/g, command)
+    .replace(/\{type\}/g, getImageType(command, parsed))
+    .replace(/\{date\}/g, new Date().toISOString().slice(0, 10))
+    .replace(/\{timestamp\}/g, String(uniqueTimestamp())));
+}
+
+/**
+ * Fill options missing from the command line with the resolved defaults
+ */
+export function withDefaults(command: JobCommand, parsed: ParsedArgs): ParsedArgs {
+  const defaults = resolveDefaults();
+  const result: ParsedArgs = { ...parsed };
+
+  // A brand kit's own defaults come before any others
+  if (parsed.brand) {
+    const brand = getBrand(parsed.brand);
+    result.aspectRatio ??= brand.aspectRatio;
+    if (command === 'generate' || command === 'transparent') {
+      result.type ??= brand.type;
+    }
+  }
+
+  result.model ??= defaults.model?.value;
+  result.resolution ??= defaults.resolution?.value;
+  result.aspectRatio ??= defaults.aspectRatio?.value;
+  result.outputDir ??= defaults.outputDir?.value;
+
+  // The method only means something to transparency commands, and local only to edit-transparent
+  const method = defaults.method?.value;
+  if (method && (command === 'edit-transparent' || (command.startsWith('transparent') && method !== 'local'))) {
+    result.method ??= method;
+  }
+  if (command.startsWith('transparent') || (command === 'edit-transparent' && result.method !== 'local')) {
+    result.keepIntermediates ??= defaults.keepIntermediates?.value;
+  }
+  if (!result.name && defaults.name) {
+    result.name = expandNameTemplate(defaults.name.value, command, result);
+  }
+  return result;
+}
@@ -0,0 +1,78 @@
+/**
+ * Contact sheet - a labeled grid of image thumbnails for comparing variants
+ */
+
+import sharp from 'sharp';
+
+const CHECKER_SIZE = 16;
+const GAP = 16;
+const LABEL_SIZE = 36;
+
+/**
+ * Checkerboard tile so transparent areas are visible in the sheet
+ */
+function checkerboardSvg(size: number): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">
+    <defs>
+      <pattern id="c" width="${CHECKER_SIZE * 2}" height="${CHECKER_SIZE * 2}" patternUnits="userSpaceOnUse">
+        <rect width="${CHECKER_SIZE * 2}" height="${CHECKER_SIZE * 2}" fill="#ffffff"/>
+        <rect width="${CHECKER_SIZE}" height="${CHECKER_SIZE}" fill="#d0d0d0"/>
+        <rect x="${CHECKER_SIZE}" y="${CHECKER_SIZE}" width="${CHECKER_SIZE}" height="${CHECKER_SIZE}" fill="#d0d0d0"/>
+      </pattern>
+    </defs>
+    <rect width="${size}" height="${size}" fill="url(#c)"/>
+  </svg>`;
+}
+
+function labelSvg(text: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${LABEL_SIZE}" height="${LABEL_SIZE}">
+    <rect width="${LABEL_SIZE}" height="${LABEL_SIZE}" rx="6" fill="#000000" fill-opacity="0.75"/>
+    <text x="50%" y="50%" dominant-baseline="central" text-anchor="middle"
+      font-family="sans-serif" font-size="20" font-weight="bold" fill="#ffffff">${text}</text>
+  </svg>`;
+}
+
+/**
+ * Write a grid of thumbnails to `outputPath`. Cells are labeled 1..n unless
+ * `labels` gives one per image.
+ */
+export async function createContactSheet(
+  imagePaths: string[],
+  outputPath: string,
+  options: {
+    cellSize?: number;
+    columns?: number;
+    labels?: string[];
+  } = {}
+): Promise<void> {
+  const cellSize = options.cellSize ?? 256;
+  const columns = options.columns ?? Math.ceil(Math.sqrt(imagePaths.length));
+  const rows = Math.ceil(imagePaths.length / columns);
+  const width = columns * cellSize + (columns + 1) * GAP;
+  const height = rows * cellSize + (rows + 1) * GAP;
+
+  const checkerboard = await sharp(Buffer.from(checkerboardSvg(cellSize))).png().toBuffer();
+  const layers: sharp.OverlayOptions[] = [];
+
+  for (let i = 0; i < imagePaths.length; i++) {
+    const left = GAP + (i % columns) * (cellSize + GAP);
+    const top = GAP + Math.floor(i / columns) * (cellSize + GAP);
+    const thumbnail = await sharp(imagePaths[i])
+      .resize(cellSize, cellSize, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .png()
+      .toBuffer();
+
+    layers.push(
+      { input: checkerboard, left, top },
+      { input: thumbnail, left, top },
+      { input: Buffer.from(labelSvg(options.labels?.[i] ?? String(i + 1))), left: left + 6, top: top + 6 }
+    );
+  }
+
+  await sharp({
+    create: { width, height, channels: 4, background: { r: 48, g: 48, b: 48, alpha: 1 } },
+  })
+    .composite(layers)
+    .png()
+    .toFile(outputPath);
+}
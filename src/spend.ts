@@ -0,0 +1,309 @@
+/**
+ * Spend tracking - actual cost of every API call from its usage metadata,
+ * recorded in a local JSONL ledger, with daily/monthly budget caps
+ *
+ * Prices come from a per-model table (overridable in config). Token counts
+ * are used when the response has them; otherwise the per-image price for
+ * the requested resolution.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { getConfigDir, loadConfig } from './config.js';
+import { Model, ImageSize, getModelId } from './gemini.js';
+import { BudgetExceededError } from './errors.js';
+import { ensureDir } from './utils.js';
+
+export interface ModelPricing {
+  inputPerMillion: number;        // USD per million input tokens (text and images)
+  outputTextPerMillion: number;   // USD per million output text/thinking tokens
+  outputImagePerMillion: number;  // USD per million output image tokens
+  perImage: Partial<Record<ImageSize, number>>; // Fallback when the response has no token counts
+}
+
+export interface Usage {
+  inputTokens: number;
+  outputTokens: number;
+  imageTokens: number;  // Part of outputTokens
+  thoughtTokens: number;
+  images: number;
+}
+
+export interface SpendEntry {
+  timestamp: string;
+  command?: string;     // Job command the call was made for
+  kind: 'generate' | 'edit' | 'chat';
+  model: Model;
+  modelId: string;
+  imageSize: ImageSize;
+  usage?: Usage;        // Absent when the response had no usage metadata
+  cost: number;         // USD
+}
+
+export interface BudgetConfig {
+  daily?: number;   // USD
+  monthly?: number; // USD
+  action?: 'block' | 'confirm'; // Default: block
+}
+
+export interface BudgetOverrun {
+  period: 'daily' | 'monthly';
+  limit: number;
+  spent: number;
+  projected: number; // spent + the estimated cost of what is about to run
+}
+
+export interface SpendGroup {
+  key: string;
+  calls: number;
+  images: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface UsageReport {
+  since?: string;
+  until?: string;
+  total: Omit<SpendGroup, 'key'>;
+  byDay: SpendGroup[];
+  byModel: SpendGroup[];
+  byCommand: SpendGroup[];
+  budget: {
+    daily?: { limit: number; spent: number };
+    monthly?: { limit: number; spent: number };
+  };
+}
+
+// Public list prices at the time of writing; override under "pricing" in config
+export const DEFAULT_PRICING: Record<Model, ModelPricing> = {
+  'nano-banana': {
+    inputPerMillion: 0.30,
+    outputTextPerMillion: 2.50,
+    outputImagePerMillion: 30,
+    perImage: { '1K': 0.039 },
+  },
+  'nano-banana-pro': {
+    inputPerMillion: 2,
+    outputTextPerMillion: 12,
+    outputImagePerMillion: 120,
+    perImage: { '1K': 0.134, '2K': 0.134, '4K': 0.24 },
+  },
+};
+
+// Command being run in the current async context, for ledger entries, and
+// whether going over a budget cap was confirmed for it
+const context = new AsyncLocalStorage<{ command: string; overBudget?: boolean }>();
+
+// Estimated cost of API calls in flight in this process, not yet in the ledger
+let reserved = 0;
+
+export function withSpendContext<T>(command: string, fn: () => Promise<T>, options: { overBudget?: boolean } = {}): Promise<T> {
+  return context.run({ command, ...options }, fn);
+}
+
+export function getSpendPath(): string {
+  return join(getConfigDir(), 'spend.jsonl');
+}
+
+export function getPricing(model: Model): ModelPricing {
+  const override = loadConfig()?.pricing?.[model];
+  const base = DEFAULT_PRICING[model];
+  return {
+    ...base,
+    ...override,
+    perImage: { ...base.perImage, ...override?.perImage },
+  };
+}
+
+/**
+ * List price of one output image at the given resolution
+ */
+export function estimateImageCost(model: Model, imageSize: ImageSize = '1K'): number {
+  const { perImage } = getPricing(model);
+  return perImage[imageSize] ?? perImage['1K'] ?? 0;
+}
+
+export function computeCost(model: Model, imageSize: ImageSize, usage?: Usage): number {
+  if (!usage || usage.inputTokens + usage.outputTokens === 0) {
+    return estimateImageCost(model, imageSize) * (usage?.images ?? 1);
+  }
+  const pricing = getPricing(model);
+  const textTokens = usage.outputTokens - usage.imageTokens + usage.thoughtTokens;
+  return (
+    usage.inputTokens * pricing.inputPerMillion +
+    usage.imageTokens * pricing.outputImagePerMillion +
+    textTokens * pricing.outputTextPerMillion
+  ) / 1_000_000;
+}
+
+/**
+ * Append a call to the ledger. Like history, a write failure never fails
+ * the call it describes.
+ */
+export function recordSpend(
+  kind: SpendEntry['kind'],
+  model: Model,
+  imageSize: ImageSize = '1K',
+  usage?: Usage
+): SpendEntry {
+  const entry: SpendEntry = {
+    timestamp: new Date().toISOString(),
+    command: context.getStore()?.command,
+    kind,
+    model,
+    modelId: getModelId(model),
+    imageSize,
+    usage,
+    cost: computeCost(model, imageSize, usage),
+  };
+  try {
+    ensureDir(getConfigDir());
+    appendFileSync(getSpendPath(), JSON.stringify(entry) + '\n');
+  } catch {
+    // Ignore ledger write errors
+  }
+  return entry;
+}
+
+export function loadSpend(): SpendEntry[] {
+  const path = getSpendPath();
+  if (!existsSync(path)) {
+    return [];
+  }
+  const entries: SpendEntry[] = [];
+  for (const line of readFileSync(path, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as SpendEntry);
+    } catch {
+      // Skip corrupt lines
+    }
+  }
+  return entries;
+}
+
+function localDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function spentSince(entries: SpendEntry[], start: Date): number {
+  return entries
+    .filter((entry) => new Date(entry.timestamp) >= start)
+    .reduce((sum, entry) => sum + entry.cost, 0);
+}
+
+export function getBudget(): BudgetConfig {
+  return loadConfig()?.budget || {};
+}
+
+/**
+ * Budget caps that `estimatedCost` more would exceed. Calls in flight count
+ * as spent. Days and months are local time; free jobs are never over budget.
+ */
+export function checkBudget(estimatedCost: number, now: Date = new Date()): BudgetOverrun[] {
+  const budget = getBudget();
+  if (estimatedCost <= 0 || (budget.daily === undefined && budget.monthly === undefined)) {
+    return [];
+  }
+  const entries = loadSpend();
+  const overruns: BudgetOverrun[] = [];
+  const periods: [BudgetOverrun['period'], number | undefined, Date][] = [
+    ['daily', budget.daily, new Date(now.getFullYear(), now.getMonth(), now.getDate())],
+    ['monthly', budget.monthly, new Date(now.getFullYear(), now.getMonth(), 1)],
+  ];
+  for (const [period, limit, start] of periods) {
+    if (limit === undefined) continue;
+    const spent = spentSince(entries, start) + reserved;
+    if (spent + estimatedCost > limit) {
+      overruns.push({ period, limit, spent: roundCost(spent), projected: roundCost(spent + estimatedCost) });
+    }
+  }
+  return overruns;
+}
+
+/**
+ * Throw if running something that costs `estimatedCost` would go over a cap
+ */
+export function assertWithinBudget(estimatedCost: number): void {
+  const overruns = checkBudget(estimatedCost);
+  if (overruns.length > 0) {
+    throw new BudgetExceededError(overruns.map((o) =>
+      `${o.period} budget of $${o.limit.toFixed(2)} would be exceeded ($${o.spent.toFixed(3)} spent, $${o.projected.toFixed(3)} with this job)`
+    ).join('; '));
+  }
+}
+
+/**
+ * Check the caps before an API call, then hold its estimated cost until the
+ * call is recorded, so concurrent calls can't go over a cap together.
+ * Returns a function that releases the reservation.
+ */
+export function reserveSpend(estimatedCost: number): () => void {
+  if (!context.getStore()?.overBudget) {
+    assertWithinBudget(estimatedCost);
+  }
+  reserved += estimatedCost;
+  let released = false;
+  return () => {
+    if (!released) {
+      released = true;
+      reserved -= estimatedCost;
+    }
+  };
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+function group(entries: SpendEntry[], keyOf: (entry: SpendEntry) => string): SpendGroup[] {
+  const groups = new Map<string, SpendGroup>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const g = groups.get(key) || { key, calls: 0, images: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    g.calls++;
+    g.images += entry.usage?.images ?? 1;
+    g.inputTokens += entry.usage?.inputTokens ?? 0;
+    g.outputTokens += entry.usage?.outputTokens ?? 0;
+    g.cost += entry.cost;
+    groups.set(key, g);
+  }
+  return [...groups.values()]
+    .map((g) => ({ ...g, cost: roundCost(g.cost) }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+export function createUsageReport(filter: { since?: Date; until?: Date } = {}): UsageReport {
+  const all = loadSpend();
+  const entries = all.filter((entry) => {
+    const time = new Date(entry.timestamp);
+    if (filter.since && time < filter.since) return false;
+    if (filter.until && time > filter.until) return false;
+    return true;
+  });
+
+  const [total] = group(entries, () => 'total');
+  const now = new Date();
+  const budget = getBudget();
+  return {
+    since: filter.since?.toISOString(),
+    until: filter.until?.toISOString(),
+    total: total
+      ? { calls: total.calls, images: total.images, inputTokens: total.inputTokens, outputTokens: total.outputTokens, cost: total.cost }
+      : { calls: 0, images: 0, inputTokens: 0, outputTokens: 0, cost: 0 },
+    byDay: group(entries, (entry) => localDay(new Date(entry.timestamp))),
+    byModel: group(entries, (entry) => entry.model),
+    byCommand: group(entries, (entry) => entry.command || 'unknown'),
+    budget: {
+      daily: budget.daily !== undefined
+        ? { limit: budget.daily, spent: roundCost(spentSince(all, new Date(now.getFullYear(), now.getMonth(), now.getDate()))) }
+        : undefined,
+      monthly: budget.monthly !== undefined
+        ? { limit: budget.monthly, spent: roundCost(spentSince(all, new Date(now.getFullYear(), now.getMonth(), 1))) }
+        : undefined,
+    },
+  };
+}
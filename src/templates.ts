@@ -0,0 +1,112 @@
+/**
+ * Prompt templates - the built-in image types plus user-defined ones
+ * stored in config
+ *
+ * A template wraps the user's prompt: `{prompt}` is replaced by it and any
+ * other `{name}` by a --var value or the template's default. A config
+ * template named icon, logo, ui or image overrides the built-in one.
+ */
+
+import { loadConfig, saveConfig } from './config.js';
+import { BuiltinImageType, BUILTIN_TEMPLATES } from './prompts.js';
+
+export interface PromptTemplate {
+  template: string;
+  description?: string;
+  defaults?: Record<string, string>; // Values for variables not passed with --var
+}
+
+export interface TemplateInfo extends PromptTemplate {
+  name: string;
+  source: 'built-in' | 'config' | 'override'; // override: config template replacing a built-in
+  variables: string[];                         // Named variables besides {prompt}
+}
+
+const VARIABLE_PATTERN = /\{([A-Za-z][\w-]*)\}/g;
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+function isBuiltin(name: string): name is BuiltinImageType {
+  return Object.prototype.hasOwnProperty.call(BUILTIN_TEMPLATES, name);
+}
+
+export function templateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (match[1] !== 'prompt') {
+      names.add(match[1]);
+    }
+  }
+  return [...names];
+}
+
+function describe(name: string, template: PromptTemplate, source: TemplateInfo['source']): TemplateInfo {
+  return { name, ...template, source, variables: templateVariables(template.template) };
+}
+
+/**
+ * Built-in and config templates, built-ins first
+ */
+export function listTemplates(): TemplateInfo[] {
+  const custom = loadConfig()?.templates || {};
+  const builtins = (Object.keys(BUILTIN_TEMPLATES) as BuiltinImageType[]).map((name) => custom[name]
+    ? describe(name, custom[name], 'override')
+    : describe(name, { template: BUILTIN_TEMPLATES[name] }, 'built-in'));
+  const others = Object.entries(custom)
+    .filter(([name]) => !isBuiltin(name))
+    .map(([name, template]) => describe(name, template, 'config'));
+  return [...builtins, ...others];
+}
+
+export function getTemplate(name: string): TemplateInfo {
+  const template = listTemplates().find((t) => t.name === name);
+  if (!template) {
+    throw new Error(`Unknown image type: ${name}. Run: terminal-banana template list`);
+  }
+  return template;
+}
+
+export function addTemplate(name: string, template: PromptTemplate): TemplateInfo {
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid template name: ${name}. Use lowercase letters, digits, - and _`);
+  }
+  if (!template.template.includes('{prompt}')) {
+    throw new Error('Template must contain {prompt}');
+  }
+  const config = loadConfig() || {};
+  saveConfig({ ...config, templates: { ...config.templates, [name]: template } });
+  return getTemplate(name);
+}
+
+/**
+ * Delete a config template. Removing an override restores the built-in.
+ */
+export function removeTemplate(name: string): boolean {
+  const config = loadConfig();
+  if (!config?.templates?.[name]) {
+    if (isBuiltin(name)) {
+      throw new Error(`${name} is a built-in template and can't be removed, only overridden`);
+    }
+    return false;
+  }
+  const { [name]: _removed, ...templates } = config.templates;
+  saveConfig({ ...config, templates });
+  return true;
+}
+
+/**
+ * Wrap a prompt with the template for `type`
+ */
+export function renderPrompt(prompt: string, type: string, vars: Record<string, string> = {}): string {
+  const template = getTemplate(type);
+  for (const name of Object.keys(vars)) {
+    if (!template.variables.includes(name)) {
+      throw new Error(`Template ${type} has no variable ${name}. Variables: ${template.variables.join(', ') || 'none'}`);
+    }
+  }
+  const missing = template.variables.filter((name) => vars[name] === undefined && template.defaults?.[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Template ${type} needs a value for: ${missing.join(', ')}. Use --var ${missing[0]}=...`);
+  }
+  return template.template.replace(VARIABLE_PATTERN, (_match, name: string) =>
+    name === 'prompt' ? prompt : vars[name] ?? template.defaults![name]);
+}
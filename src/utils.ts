@@ -3,13 +3,27 @@
  */
 
 import { existsSync, mkdirSync } from 'fs';
-import {
-  wrapIconPrompt,
-  wrapLogoPrompt,
-  wrapUIPrompt,
-} from './prompts.js';
+import { renderPrompt } from './templates.js';
 
-export type ImageType = 'image' | 'icon' | 'logo' | 'ui';
+// A built-in type (image, icon, logo, ui) or the name of a template from config
+export type ImageType = string;
+
+/**
+ * Parse a named color (white/black) or hex color (#RRGGBB or RRGGBB)
+ */
+export function parseColor(color: string): { r: number; g: number; b: number } {
+  if (color === 'white') return { r: 255, g: 255, b: 255 };
+  if (color === 'black') return { r: 0, g: 0, b: 0 };
+  // Parse hex color
+  const hex = color.replace('#', '');
+  if (!/^[0-9a-fA-F]{6}$/.test(hex)) {
+    throw new Error(`Invalid hex color: ${color}. Use format #RRGGBB or RRGGBB`);
+  }
+  const r = parseInt(hex.slice(0, 2), 16);
+  const g = parseInt(hex.slice(2, 4), 16);
+  const b = parseInt(hex.slice(4, 6), 16);
+  return { r, g, b };
+}
 
 export function ensureDir(dir: string): void {
   if (!existsSync(dir)) {
@@ -17,20 +31,49 @@ export function ensureDir(dir: string): void {
   }
 }
 
-export function wrapPromptForType(prompt: string, type: ImageType): string {
-  switch (type) {
-    case 'icon':
-      return wrapIconPrompt(prompt);
-    case 'logo':
-      return wrapLogoPrompt(prompt);
-    case 'ui':
-      return wrapUIPrompt(prompt);
-    default:
-      return prompt;
+export function wrapPromptForType(prompt: string, type: ImageType, vars?: Record<string, string>): string {
+  return renderPrompt(prompt, type, vars);
+}
+
+let lastTimestamp = 0;
+
+/**
+ * Millisecond timestamp that is unique within this process, so jobs
+ * running concurrently never pick the same output filename
+ */
+export function uniqueTimestamp(): number {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+  return lastTimestamp;
+}
+
+/**
+ * Run `fn` over all items with at most `limit` in flight.
+ * Results keep the order of `items`.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(limit, items.length); i++) {
+    workers.push(worker());
   }
+  await Promise.all(workers);
+  return results;
 }
 
-export function generateFilename(prefix: string = 'image'): string {
-  const timestamp = Date.now();
-  return `${prefix}_${timestamp}.png`;
+export function generateFilename(prefix: string = 'image', extension: string = '.png'): string {
+  const timestamp = uniqueTimestamp();
+  return `${prefix}_${timestamp}${extension}`;
 }
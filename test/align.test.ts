@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { registerPasses } from '../src/align.js';
+
+const SIZE = 64;
+
+// A dark square on a plain background, offset by (dx, dy)
+function square(background: number, dx = 0, dy = 0): Promise<Buffer> {
+  const pixels = Buffer.alloc(SIZE * SIZE * 3, background);
+  for (let y = 20 + dy; y < 44 + dy; y++) {
+    for (let x = 16 + dx; x < 40 + dx; x++) {
+      pixels.fill(background === 255 ? 40 : 200, (y * SIZE + x) * 3, (y * SIZE + x) * 3 + 3);
+    }
+  }
+  return sharp(pixels, { raw: { width: SIZE, height: SIZE, channels: 3 } }).png().toBuffer();
+}
+
+function gray(width: number, height: number, values: number[]): Promise<Buffer> {
+  return sharp(Buffer.from(values), { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+test('a shifted black pass is registered back onto the white pass', async () => {
+  const { alignment } = await registerPasses(await square(255), await square(0, 3, -2));
+  assert.equal(alignment.applied, true);
+  assert.equal(alignment.offsetX, 3);
+  assert.equal(alignment.offsetY, -2);
+  assert.equal(alignment.scale, 1);
+});
+
+test('an aligned pair is left alone', async () => {
+  const { alignment, black } = await registerPasses(await square(255), await square(0));
+  assert.equal(alignment.applied, false);
+  assert.equal(black.length, SIZE * SIZE * 4);
+});
+
+test('a pass whose edges have no spread still registers to finite values', async () => {
+  // At 3x3 only the centre pixel has an edge value
+  const white = await gray(3, 3, [255, 255, 255, 255, 255, 0, 0, 0, 0]);
+  const black = await gray(6, 6, Array.from({ length: 36 }, (_, i) => (i % 6 < 3 ? 0 : 255)));
+  const { alignment } = await registerPasses(white, black);
+  for (const value of [alignment.offsetX, alignment.offsetY, alignment.scale, alignment.correlation]) {
+    assert.ok(Number.isFinite(value), `${value} is not finite`);
+  }
+});
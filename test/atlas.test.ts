@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { collectAtlasInputs, createAtlas } from '../src/atlas.js';
+
+interface Frame {
+  frame: { x: number; y: number; w: number; h: number };
+  trimmed: boolean;
+  spriteSourceSize: { x: number; y: number; w: number; h: number };
+  sourceSize: { w: number; h: number };
+}
+
+function tempDir(): string {
+  return mkdtempSync(join(tmpdir(), 'tbanana-atlas-'));
+}
+
+// A transparent canvas with an opaque red box inside it
+async function writeSprite(dir: string, name: string, size: number, box: { x: number; y: number; w: number; h: number }): Promise<string> {
+  const path = join(dir, name);
+  const red = await sharp({ create: { width: box.w, height: box.h, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } } }).png().toBuffer();
+  await sharp({ create: { width: size, height: size, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+    .composite([{ input: red, left: box.x, top: box.y }])
+    .png()
+    .toFile(path);
+  return path;
+}
+
+function overlaps(a: Frame['frame'], b: Frame['frame']): boolean {
+  return a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+}
+
+test('sprites are trimmed and packed without overlap', async () => {
+  const input = tempDir();
+  await writeSprite(input, 'a.png', 32, { x: 4, y: 6, w: 10, h: 12 });
+  await writeSprite(input, 'b.png', 32, { x: 0, y: 0, w: 32, h: 32 });
+  await writeSprite(input, 'c.png', 16, { x: 8, y: 8, w: 8, h: 4 });
+  const output = tempDir();
+
+  const result = await createAtlas([input], output, { formats: ['json-hash', 'css'] });
+  assert.equal(result.frames, 3);
+  assert.equal(result.trimmed, 2);
+  assert.equal(result.sheets.length, 1);
+
+  const sheet = result.sheets[0];
+  assert.equal(sheet.width & (sheet.width - 1), 0);
+  assert.equal(sheet.height & (sheet.height - 1), 0);
+
+  const { frames } = JSON.parse(readFileSync(sheet.data['json-hash']!, 'utf-8')) as { frames: Record<string, Frame> };
+  assert.deepEqual(frames['a.png'].spriteSourceSize, { x: 4, y: 6, w: 10, h: 12 });
+  assert.deepEqual(frames['a.png'].sourceSize, { w: 32, h: 32 });
+  assert.equal(frames['b.png'].trimmed, false);
+
+  const placed = Object.values(frames).map((f) => f.frame);
+  for (const [i, a] of placed.entries()) {
+    assert.ok(a.x + a.w <= sheet.width && a.y + a.h <= sheet.height);
+    for (const b of placed.slice(i + 1)) {
+      assert.ok(!overlaps(a, b), `${JSON.stringify(a)} overlaps ${JSON.stringify(b)}`);
+    }
+  }
+
+  // The trimmed box lands exactly on its frame
+  const { frame } = frames['a.png'];
+  const pixels = await sharp(sheet.image).extract({ left: frame.x, top: frame.y, width: frame.w, height: frame.h }).raw().toBuffer();
+  for (let i = 3; i < pixels.length; i += 4) {
+    assert.equal(pixels[i], 255);
+  }
+  assert.match(readFileSync(result.css!, 'utf-8'), /\.atlas-a\b/);
+});
+
+test('sprites that overflow a sheet go to further sheets', async () => {
+  const input = tempDir();
+  for (const name of ['a.png', 'b.png', 'c.png']) {
+    await writeSprite(input, name, 40, { x: 0, y: 0, w: 40, h: 40 });
+  }
+  const output = tempDir();
+
+  const result = await createAtlas([input], output, { maxSize: 64, formats: ['json-array'] });
+  assert.equal(result.sheets.length, 3);
+  assert.deepEqual(result.sheets.map((s) => s.image.split('/').pop()), ['atlas_1.png', 'atlas_2.png', 'atlas_3.png']);
+  const { meta } = JSON.parse(readFileSync(result.sheets[0].data['json-array']!, 'utf-8'));
+  assert.deepEqual(meta.related_multi_packs, ['atlas_2.array.json', 'atlas_3.array.json']);
+});
+
+test('invalid options and inputs are rejected', async () => {
+  const input = tempDir();
+  const sprite = await writeSprite(input, 'big.png', 80, { x: 0, y: 0, w: 80, h: 80 });
+  const output = tempDir();
+
+  await assert.rejects(createAtlas([sprite], output, { maxSize: 100 }), /power of two/);
+  await assert.rejects(createAtlas([sprite], output, { maxSize: 64 }), /doesn't fit a 64x64 sheet/);
+  await assert.rejects(createAtlas([sprite], output, { rotate: true, formats: ['css'] }), /rotated/);
+
+  const other = tempDir();
+  await writeSprite(other, 'big.png', 8, { x: 0, y: 0, w: 8, h: 8 });
+  await assert.rejects(createAtlas([sprite, join(other, 'big.png')], output), /Duplicate sprite name/);
+});
+
+test('directories contribute image files but not two-pass intermediates', () => {
+  const dir = tempDir();
+  for (const name of ['b.png', 'a.webp', '_white_1.png', 'notes.txt']) {
+    writeFileSync(join(dir, name), '');
+  }
+  assert.deepEqual(collectAtlasInputs([dir]), [join(dir, 'a.webp'), join(dir, 'b.png')]);
+  assert.throws(() => collectAtlasInputs([tempDir()]), /No images to pack/);
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BatchJobOutcome, estimateBatchCost, loadBatchManifest, runBatch } from '../src/batch.js';
+
+function writeManifest(lines: unknown[]): string {
+  const path = join(mkdtempSync(join(tmpdir(), 'tbanana-batch-')), 'jobs.jsonl');
+  writeFileSync(path, lines.map((line) => JSON.stringify(line)).join('\n'));
+  return path;
+}
+
+test('an entry that fails validation is neither estimated nor run', async () => {
+  // local removal needs an input image; transparent generation can't use it
+  const jobs = loadBatchManifest(writeManifest([
+    { command: 'transparent', prompt: 'a cat', method: 'local' },
+  ]), '/tmp/out');
+
+  assert.equal(jobs[0].parsed, undefined);
+  assert.match(jobs[0].error!, /local/);
+  assert.equal(estimateBatchCost(jobs), 0);
+
+  const outcomes: BatchJobOutcome[] = [];
+  const summary = await runBatch(jobs, { onOutcome: (outcome) => outcomes.push(outcome) });
+  assert.equal(summary.failed, 1);
+  assert.equal(outcomes[0].error?.code, 'INVALID_JOB');
+});
+
+test('valid entries are estimated', () => {
+  const jobs = loadBatchManifest(writeManifest([
+    { command: 'generate', prompt: 'a cat' },
+    { command: 'nope', prompt: 'a dog' },
+  ]), '/tmp/out');
+
+  assert.ok(jobs[0].parsed);
+  assert.equal(jobs[1].error, 'Unknown command: nope');
+  assert.ok(estimateBatchCost(jobs) > 0);
+});
+
+test('invalid JSON lines become failed jobs', () => {
+  const path = writeManifest([{ command: 'generate', prompt: 'a cat' }]);
+  writeFileSync(path, '{"command": "generate", "prompt": "a cat"}\n{not json\n');
+  const jobs = loadBatchManifest(path, '/tmp/out');
+  assert.equal(jobs.length, 2);
+  assert.equal(jobs[1].error, 'Invalid JSON on job 1');
+});
+
+test('an unknown field fails the entry instead of being ignored', () => {
+  const jobs = loadBatchManifest(writeManifest([
+    { command: 'generate', prompt: 'a cat', provider: 'mock' },
+    { command: 'generate', prompt: 'a cat', args: ['--provider', 'mock'] },
+  ]), '/tmp/out');
+
+  assert.equal(jobs[0].parsed, undefined);
+  assert.match(jobs[0].error!, /Unknown field: provider/);
+  assert.equal(jobs[1].parsed?.provider, 'mock');
+});
@@ -0,0 +1,73 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { utimesSync } from 'fs';
+import { join } from 'path';
+import { saveConfig } from '../src/config.js';
+import { GenerateRequest } from '../src/provider.js';
+import { clearCache, computeCacheKey, getCacheDir, getCacheStats, withCache } from '../src/cache.js';
+
+const request: GenerateRequest = { prompt: 'a cat', model: 'nano-banana-pro', config: { imageSize: '1K' } };
+
+beforeEach(() => {
+  saveConfig({});
+  clearCache();
+});
+
+test('the key covers everything that determines the output', () => {
+  const key = computeCacheKey('gemini', 'generate', request, []);
+  assert.equal(computeCacheKey('gemini', 'generate', { ...request }, []), key);
+
+  const variants = [
+    computeCacheKey('mock', 'generate', request, []),
+    computeCacheKey('gemini', 'edit', request, []),
+    computeCacheKey('gemini', 'generate', { ...request, prompt: 'a dog' }, []),
+    computeCacheKey('gemini', 'generate', { ...request, model: 'nano-banana' }, []),
+    computeCacheKey('gemini', 'generate', { ...request, config: { imageSize: '2K' } }, []),
+    computeCacheKey('gemini', 'generate', { ...request, config: { ...request.config, aspectRatio: '16:9' } }, []),
+    computeCacheKey('gemini', 'generate', { ...request, variant: 2 }, []),
+    computeCacheKey('gemini', 'generate', request, [Buffer.from('reference')]),
+  ];
+  assert.equal(new Set([key, ...variants]).size, variants.length + 1);
+  assert.notEqual(
+    computeCacheKey('gemini', 'generate', request, [Buffer.from('a')]),
+    computeCacheKey('gemini', 'generate', request, [Buffer.from('b')])
+  );
+});
+
+test('a cached response is served without calling again', async () => {
+  let calls = 0;
+  const fn = async () => Buffer.from(`response ${++calls}`);
+
+  const first = await withCache('key', { enabled: true }, fn);
+  const second = await withCache('key', { enabled: true }, fn);
+  assert.deepEqual([first.cached, second.cached], [false, true]);
+  assert.equal(second.buffer.toString(), 'response 1');
+
+  const refreshed = await withCache('key', { enabled: true, refresh: true }, fn);
+  assert.equal(refreshed.cached, false);
+  assert.equal((await withCache('key', { enabled: true }, fn)).buffer.toString(), 'response 2');
+});
+
+test('the cache is off unless enabled', async () => {
+  let calls = 0;
+  const fn = async () => Buffer.from(String(++calls));
+  await withCache('off', {}, fn);
+  await withCache('off', {}, fn);
+  assert.equal(calls, 2);
+  assert.equal(getCacheStats().entries, 0);
+});
+
+test('least recently used entries are evicted past the size cap', async () => {
+  // 1 MB cap, three 400 KB entries
+  saveConfig({ cache: { maxSizeMB: 1 } });
+  const entry = async () => Buffer.alloc(400 * 1024);
+  await withCache('a', { enabled: true }, entry);
+  await withCache('b', { enabled: true }, entry);
+  const old = new Date(Date.now() - 60_000);
+  utimesSync(join(getCacheDir(), 'a.img'), old, old);
+  utimesSync(join(getCacheDir(), 'b.img'), new Date(), new Date());
+  await withCache('c', { enabled: true }, entry);
+
+  assert.equal(getCacheStats().entries, 2);
+  assert.equal((await withCache('a', { enabled: true }, entry)).cached, false);
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Config, clearApiKey, loadConfig, saveConfig } from '../src/config.js';
+
+const config: Config = {
+  apiKey: 'top-level-key',
+  provider: 'mock',
+  profiles: { work: { apiKey: 'work-key', defaults: { model: 'nano-banana' } } },
+  budget: { daily: 5 },
+};
+
+test('clearing the key keeps the rest of the config', () => {
+  saveConfig(structuredClone(config));
+  assert.equal(clearApiKey(), true);
+  const { apiKey: _apiKey, ...rest } = config;
+  assert.deepEqual(loadConfig(), rest);
+  assert.equal(clearApiKey(), false);
+});
+
+test('clearing a profile key leaves the top-level key', () => {
+  saveConfig(structuredClone(config));
+  assert.equal(clearApiKey('work'), true);
+  const saved = loadConfig()!;
+  assert.equal(saved.apiKey, 'top-level-key');
+  assert.deepEqual(saved.profiles, { work: { defaults: { model: 'nano-banana' } } });
+  assert.equal(clearApiKey('missing'), false);
+});
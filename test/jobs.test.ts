@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { saveConfig } from '../src/config.js';
+import { validateJob } from '../src/jobs.js';
+
+saveConfig({ brands: { acme: { references: ['/refs/a.png', '/refs/b.png', '/refs/c.png'] } } });
+
+test('brand kit references count against the model limit', () => {
+  const parsed = { prompt: 'a cat', outputDir: '/tmp/out', brand: 'acme', model: 'nano-banana' as const };
+  validateJob('generate', parsed);
+  assert.throws(
+    () => validateJob('generate', { ...parsed, referenceImages: ['/refs/d.png'] }),
+    /Too many reference images for nano-banana: 4, of which 3 come from brand kit acme\. Maximum is 3/
+  );
+  // Edits don't send the kit's references
+  validateJob('edit', { ...parsed, inputImage: '/in.png', referenceImages: ['/refs/d.png'] });
+});
+
+test('transparent commands check the generation model of their method', () => {
+  const parsed = { prompt: 'a cat', outputDir: '/tmp/out', brand: 'acme', referenceImages: ['/refs/d.png'] };
+  validateJob('transparent', { ...parsed, method: 'pro-pro' });
+  assert.throws(() => validateJob('transparent', { ...parsed, method: 'flash-flash' }), /brand kit acme/);
+});
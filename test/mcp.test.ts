@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import { existsSync, mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { saveConfig } from '../src/config.js';
+
+const CLI = fileURLToPath(new URL('../src/cli.js', import.meta.url));
+
+interface Reply {
+  id: number | null;
+  result?: Record<string, any>;
+  error?: { code: number; message: string };
+}
+
+// Send each line to `tbanana mcp`, close stdin, and collect the replies
+function exchange(lines: string[]): Promise<Reply[]> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [CLI, 'mcp'], { env: process.env, stdio: ['pipe', 'pipe', 'inherit'] });
+    let stdout = '';
+    child.stdout.on('data', (chunk) => { stdout += chunk; });
+    child.on('error', reject);
+    child.on('close', () => {
+      resolve(stdout.split('\n').filter(Boolean).map((line) => JSON.parse(line) as Reply));
+    });
+    child.stdin.end(lines.join('\n') + '\n');
+  });
+}
+
+function request(id: number, method: string, params?: Record<string, unknown>): string {
+  return JSON.stringify({ jsonrpc: '2.0', id, method, params });
+}
+
+test('the server speaks JSON-RPC over stdio and runs tools', { timeout: 60_000 }, async () => {
+  saveConfig({ provider: 'mock' });
+  const outputDir = mkdtempSync(join(tmpdir(), 'tbanana-mcp-'));
+
+  const replies = await exchange([
+    request(1, 'initialize', { protocolVersion: '2024-11-05' }),
+    JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+    request(2, 'tools/list'),
+    request(3, 'tools/call', { name: 'generate', arguments: { prompt: 'a cat', outputDir, preview: true } }),
+    request(4, 'tools/call', { name: 'edit', arguments: { prompt: 'no input' } }),
+    request(5, 'tools/call', { name: 'nope' }),
+    request(6, 'nope'),
+    '{not json',
+  ]);
+  const byId = new Map(replies.map((reply) => [reply.id, reply]));
+
+  // Notifications get no reply
+  assert.equal(replies.length, 7);
+
+  assert.equal(byId.get(1)?.result?.protocolVersion, '2024-11-05');
+  assert.deepEqual(byId.get(1)?.result?.capabilities, { tools: {} });
+
+  const tools = byId.get(2)?.result?.tools as { name: string }[];
+  assert.ok(tools.some((tool) => tool.name === 'generate'));
+  assert.ok(tools.some((tool) => tool.name === 'config_status'));
+
+  const generated = byId.get(3)!.result!;
+  assert.equal(generated.isError, undefined);
+  const path = generated.structuredContent.path as string;
+  assert.ok(path.startsWith(outputDir) && existsSync(path));
+  assert.equal(generated.content[1].type, 'image');
+
+  // Invalid tool arguments are a tool error, not a protocol error
+  assert.equal(byId.get(4)?.result?.isError, true);
+
+  assert.match(byId.get(5)?.error?.message ?? '', /Unknown tool: nope/);
+  assert.equal(byId.get(6)?.error?.code, -32601);
+  assert.equal(byId.get(null)?.error?.code, -32700);
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { OutputFormat, encodeImage } from '../src/format.js';
+import {
+  Provenance,
+  embedProvenanceInBuffer,
+  embedProvenanceInBufferWithinCap,
+  readProvenance,
+} from '../src/provenance.js';
+
+const provenance: Provenance = {
+  tool: 'terminal-banana',
+  version: '0.0.0',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  command: 'generate',
+  historyId: 'abc123',
+  prompt: 'a cat — with “quotes” & <angle> brackets',
+  model: 'nano-banana-pro',
+  provider: 'mock',
+  imageConfig: { imageSize: '1K' },
+  references: ['f'.repeat(64)],
+};
+
+// Random pixels, so lossy encoders have quality to give up
+async function noise(format: OutputFormat, size = 64): Promise<Buffer> {
+  const pixels = Buffer.alloc(size * size * 3);
+  for (let i = 0; i < pixels.length; i++) pixels[i] = (i * 7919) % 251;
+  const image = sharp(pixels, { raw: { width: size, height: size, channels: 3 } });
+  return (await encodeImage(image, { format, quality: 90 })).buffer;
+}
+
+for (const format of ['png', 'jpeg', 'webp'] as const) {
+  test(`${format} outputs carry the record without re-encoding`, async () => {
+    const plain = await noise(format);
+    assert.equal(readProvenance(plain), null);
+
+    const embedded = await embedProvenanceInBuffer(plain, provenance);
+    assert.ok(embedded);
+    assert.deepEqual(readProvenance(embedded), provenance);
+
+    const [before, after] = await Promise.all([plain, embedded].map((b) => sharp(b).raw().toBuffer()));
+    assert.ok(before.equals(after));
+    assert.equal((await sharp(embedded).metadata()).format, format);
+
+    // Embedding again replaces the record rather than adding a second one
+    const again = await embedProvenanceInBuffer(embedded, { ...provenance, command: 'edit' });
+    assert.equal(readProvenance(again!)?.command, 'edit');
+    assert.ok(Math.abs(again!.length - embedded.length) < 16);
+  });
+}
+
+test('formats without a metadata slot are left alone', async () => {
+  assert.equal(await embedProvenanceInBuffer(Buffer.from('not an image'), provenance), null);
+  assert.equal(readProvenance(Buffer.from('not an image')), null);
+});
+
+test('the record counts against a size cap', async () => {
+  const plain = await noise('jpeg', 128);
+  const maxBytes = plain.length + 10;
+
+  const { buffer, overLimit } = await embedProvenanceInBufferWithinCap(plain, provenance, { format: 'jpeg', quality: 90, maxBytes });
+  assert.equal(overLimit, false);
+  assert.ok(buffer.length <= maxBytes);
+  assert.deepEqual(readProvenance(buffer), provenance);
+
+  const uncapped = await embedProvenanceInBufferWithinCap(plain, provenance);
+  assert.ok(uncapped.buffer.length > maxBytes);
+  assert.equal(uncapped.overLimit, false);
+
+  const tooSmall = await embedProvenanceInBufferWithinCap(plain, provenance, { format: 'jpeg', maxBytes: 100 });
+  assert.equal(tooSmall.overLimit, true);
+});
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { saveConfig } from '../src/config.js';
+import { BananaError, classifyError } from '../src/errors.js';
+import { resolveRetryOptions, withRetry } from '../src/retry.js';
+
+// Shaped like the SDK's ApiError: an HTTP status and the JSON body as message
+function apiError(status: number, body: unknown): Error {
+  return Object.assign(new Error(JSON.stringify(body)), { status });
+}
+
+const NO_DELAY = { baseDelayMs: 0, maxDelayMs: 0 };
+
+test('errors are classified by status and body', () => {
+  const rateLimited = classifyError(apiError(429, {
+    error: { message: 'slow down', details: [{ retryDelay: '1.5s' }] },
+  }));
+  assert.equal(rateLimited.code, 'RATE_LIMITED');
+  assert.equal(rateLimited.retryable, true);
+  assert.equal(rateLimited.retryAfterMs, 1500);
+  assert.equal(rateLimited.message, 'slow down');
+
+  const daily = classifyError(apiError(429, {
+    error: { message: 'quota', details: [{ violations: [{ quotaId: 'GenerateRequestsPerDayPerProject' }] }] },
+  }));
+  assert.equal(daily.code, 'QUOTA_EXHAUSTED');
+  assert.equal(daily.retryable, false);
+
+  assert.equal(classifyError(apiError(403, { error: { message: 'denied' } })).code, 'AUTH_INVALID');
+  assert.equal(classifyError(apiError(400, { error: { message: 'API key not valid' } })).code, 'AUTH_INVALID');
+  assert.equal(classifyError(apiError(503, { error: { message: 'overloaded' } })).retryable, true);
+  assert.equal(classifyError(apiError(400, { error: { message: 'bad request' } })).code, 'API_ERROR');
+});
+
+test('socket failures are retryable network errors', () => {
+  const error = classifyError(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } }));
+  assert.equal(error.code, 'NETWORK');
+  assert.equal(error.message, 'Network error: ECONNRESET');
+  assert.equal(error.retryable, true);
+  assert.equal(classifyError(new Error('something else')).code, 'API_ERROR');
+});
+
+test('retryable failures are retried until they succeed', async () => {
+  let attempts = 0;
+  const result = await withRetry(async () => {
+    if (++attempts < 3) throw apiError(500, { error: { message: 'flaky' } });
+    return 'ok';
+  }, { maxRetries: 3, ...NO_DELAY });
+  assert.equal(result, 'ok');
+  assert.equal(attempts, 3);
+});
+
+test('retrying stops at maxRetries and rethrows the classified error', async () => {
+  let attempts = 0;
+  await assert.rejects(withRetry(async () => {
+    attempts++;
+    throw apiError(500, { error: { message: 'down' } });
+  }, { maxRetries: 2, ...NO_DELAY }), (err: unknown) => err instanceof BananaError && err.code === 'SERVER_ERROR');
+  assert.equal(attempts, 3);
+});
+
+test('non-retryable failures are not retried', async () => {
+  let attempts = 0;
+  await assert.rejects(withRetry(async () => {
+    attempts++;
+    throw apiError(401, { error: { message: 'no' } });
+  }, { maxRetries: 3, ...NO_DELAY }), { code: 'AUTH_INVALID' });
+  assert.equal(attempts, 1);
+});
+
+test('an aborted signal stops retries', async () => {
+  const controller = new AbortController();
+  let attempts = 0;
+  await assert.rejects(withRetry(async () => {
+    attempts++;
+    controller.abort();
+    throw apiError(500, { error: { message: 'down' } });
+  }, { maxRetries: 3, ...NO_DELAY }, controller.signal), { code: 'ABORTED' });
+  assert.equal(attempts, 1);
+});
+
+test('retry options come from overrides, then config, then defaults', () => {
+  saveConfig({ retry: { maxRetries: 5, baseDelayMs: 10 } });
+  assert.deepEqual(resolveRetryOptions({ baseDelayMs: 1 }), { maxRetries: 5, baseDelayMs: 1, maxDelayMs: 30000 });
+});
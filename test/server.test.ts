@@ -0,0 +1,90 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import sharp from 'sharp';
+import { saveConfig } from '../src/config.js';
+import { ServerJob, startServer } from '../src/server.js';
+
+const outputDir = mkdtempSync(join(tmpdir(), 'tbanana-serve-'));
+let server: Server;
+let base: string;
+const finished: ServerJob[] = [];
+
+before(async () => {
+  saveConfig({ provider: 'mock' });
+  server = await startServer({ port: 0, outputDir, keepJobs: 2, onJobFinished: (job) => finished.push(job) });
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise<void>((done) => server.close(() => done()));
+  rmSync(outputDir, { recursive: true, force: true });
+});
+
+async function waitForJob(id: string): Promise<ServerJob> {
+  for (;;) {
+    const job = finished.find((candidate) => candidate.id === id);
+    if (job) return job;
+    await new Promise((done) => setTimeout(done, 20));
+  }
+}
+
+async function submit(command: string, body: unknown): Promise<Response> {
+  return fetch(`${base}/${command}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+test('a job runs and its output can be downloaded', async () => {
+  const response = await submit('generate', { prompt: 'a cat', name: 'cat' });
+  assert.equal(response.status, 202);
+  const job = await waitForJob(((await response.json()) as ServerJob).id);
+  assert.equal(job.status, 'succeeded', JSON.stringify(job.error));
+
+  const download = await fetch(`${base}${job.downloads![0]}`);
+  assert.equal(download.headers.get('content-type'), 'image/png');
+});
+
+test('files outside the job directory and path flags are rejected', async () => {
+  const outside = await submit('edit', { prompt: 'x', inputImage: '/etc/hostname' });
+  assert.equal(outside.status, 400);
+  const flag = await submit('edit', { prompt: 'x', args: ['-i', '/etc/hostname'] });
+  assert.equal(flag.status, 400);
+  const name = await submit('generate', { prompt: 'x', name: '../escape' });
+  assert.equal(name.status, 400);
+});
+
+test('a mask can be uploaded for a masked edit', async () => {
+  const image = await sharp({ create: { width: 32, height: 32, channels: 3, background: '#336699' } }).png().toBuffer();
+  const mask = await sharp({ create: { width: 32, height: 32, channels: 3, background: '#ffffff' } }).png().toBuffer();
+  const form = new FormData();
+  form.append('prompt', 'add a hat');
+  form.append('image', new Blob([new Uint8Array(image)]), 'in.png');
+  form.append('mask', new Blob([new Uint8Array(mask)]), 'mask.png');
+
+  const response = await fetch(`${base}/edit`, { method: 'POST', body: form });
+  assert.equal(response.status, 202);
+  const job = await waitForJob(((await response.json()) as ServerJob).id);
+  assert.equal(job.status, 'succeeded', JSON.stringify(job.error));
+  assert.ok(job.result && 'region' in job.result && job.result.region);
+});
+
+test('only the most recent finished jobs are kept', async () => {
+  const ids: string[] = [];
+  for (let i = 0; i < 3; i++) {
+    const response = await submit('generate', { prompt: `job ${i}` });
+    ids.push(((await response.json()) as ServerJob).id);
+    await waitForJob(ids[i]);
+  }
+  const listed = ((await (await fetch(`${base}/jobs`)).json()) as ServerJob[]).map((job) => job.id);
+  assert.deepEqual(listed.sort(), ids.slice(1).sort());
+  assert.equal((await fetch(`${base}/jobs/${ids[0]}`)).status, 404);
+  assert.equal(existsSync(join(outputDir, ids[0])), false);
+  assert.equal(existsSync(join(outputDir, ids[2])), true);
+});
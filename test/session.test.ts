@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { saveConfig } from '../src/config.js';
+import { createProvider } from '../src/provider.js';
+import { listHistory } from '../src/history.js';
+import { editSession, sessionImagePath, startSession } from '../src/session.js';
+
+test('session steps are recorded in history', async () => {
+  saveConfig({});
+  const provider = createProvider('mock');
+  const session = await startSession({ prompt: 'a cat', provider });
+  const edited = await editSession(session.id, 'add a hat', { provider });
+
+  const [edit, start] = listHistory();
+  assert.equal(start.command, 'session start');
+  assert.equal(start.status, 'succeeded');
+  assert.equal(start.input, undefined);
+  assert.deepEqual(start.outputs, [sessionImagePath(session, 0)]);
+
+  assert.equal(edit.command, 'session edit');
+  assert.equal(edit.prompt, 'add a hat');
+  assert.equal(edit.provider, 'mock');
+  assert.match(edit.input?.sha256 ?? '', /^[0-9a-f]{64}$/);
+  assert.deepEqual(edit.outputs, [sessionImagePath(edited, 1)]);
+});
+
+test('a session step over budget is blocked before the call and recorded as failed', async () => {
+  saveConfig({ budget: { daily: 0.001 } });
+  const provider = createProvider('gemini', { apiKey: 'unused' });
+  await assert.rejects(startSession({ prompt: 'a dog', provider }), { code: 'BUDGET_EXCEEDED' });
+
+  const [entry] = listHistory({ command: 'session start' });
+  assert.equal(entry.status, 'failed');
+  assert.equal(entry.error?.code, 'BUDGET_EXCEEDED');
+});
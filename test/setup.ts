@@ -0,0 +1,16 @@
+/**
+ * Loaded before every test file: the config dir (history, spend, cache)
+ * points at a scratch home, and no API key is picked up from the environment
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const home = mkdtempSync(join(tmpdir(), 'tbanana-test-'));
+process.env.HOME = home;
+delete process.env.TBANANA_API_KEY;
+delete process.env.GEMINI_API_KEY;
+delete process.env.TBANANA_PROFILE;
+
+process.on('exit', () => rmSync(home, { recursive: true, force: true }));
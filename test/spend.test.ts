@@ -0,0 +1,89 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { rmSync, writeFileSync } from 'fs';
+import { saveConfig } from '../src/config.js';
+import { BudgetExceededError } from '../src/errors.js';
+import {
+  SpendEntry,
+  checkBudget,
+  computeCost,
+  createUsageReport,
+  estimateImageCost,
+  getSpendPath,
+  recordSpend,
+  reserveSpend,
+  withSpendContext,
+} from '../src/spend.js';
+
+function writeSpend(entries: Partial<SpendEntry>[]): void {
+  writeFileSync(getSpendPath(), entries.map((entry) => JSON.stringify({
+    kind: 'generate', model: 'nano-banana-pro', imageSize: '1K', ...entry,
+  })).join('\n') + '\n');
+}
+
+beforeEach(() => {
+  saveConfig({});
+  rmSync(getSpendPath(), { force: true });
+});
+
+test('image prices come from the table, with config overrides', () => {
+  assert.equal(estimateImageCost('nano-banana-pro', '4K'), 0.24);
+  // No 2K price for nano-banana, so it falls back to 1K
+  assert.equal(estimateImageCost('nano-banana', '2K'), 0.039);
+
+  saveConfig({ pricing: { 'nano-banana-pro': { perImage: { '4K': 0.5 } } } });
+  assert.equal(estimateImageCost('nano-banana-pro', '4K'), 0.5);
+  assert.equal(estimateImageCost('nano-banana-pro', '1K'), 0.134);
+});
+
+test('token usage is priced per million, images counted as image tokens', () => {
+  const cost = computeCost('nano-banana-pro', '1K', {
+    inputTokens: 1_000_000, outputTokens: 1_000_000, imageTokens: 1_000_000, thoughtTokens: 0, images: 1,
+  });
+  assert.equal(cost, 2 + 120);
+  assert.equal(computeCost('nano-banana', '1K', { inputTokens: 0, outputTokens: 0, imageTokens: 0, thoughtTokens: 0, images: 2 }), 0.078);
+});
+
+test('recorded calls carry the command of their context', async () => {
+  await withSpendContext('generate', async () => {
+    recordSpend('generate', 'nano-banana');
+  });
+  const report = createUsageReport();
+  assert.equal(report.total.calls, 1);
+  assert.deepEqual(report.byCommand.map((g) => g.key), ['generate']);
+});
+
+test('only spend in the current day and month counts against the caps', () => {
+  const now = new Date(2026, 5, 15, 12);
+  writeSpend([
+    { timestamp: new Date(2026, 5, 15, 9).toISOString(), cost: 0.5 },
+    { timestamp: new Date(2026, 5, 2).toISOString(), cost: 3 },
+    { timestamp: new Date(2026, 4, 30).toISOString(), cost: 100 },
+  ]);
+  saveConfig({ budget: { daily: 1, monthly: 10 } });
+
+  assert.deepEqual(checkBudget(0.4, now), []);
+  assert.deepEqual(checkBudget(0.6, now), [{ period: 'daily', limit: 1, spent: 0.5, projected: 1.1 }]);
+  assert.deepEqual(checkBudget(7, now).map((o) => o.period), ['daily', 'monthly']);
+  // Free jobs are never over budget
+  assert.deepEqual(checkBudget(0, now), []);
+});
+
+test('a reservation holds its cost until released', () => {
+  saveConfig({ budget: { daily: 1 } });
+  const release = reserveSpend(0.6);
+  assert.throws(() => reserveSpend(0.6), BudgetExceededError);
+
+  release();
+  release();
+  reserveSpend(0.6)();
+  assert.deepEqual(checkBudget(1), []);
+});
+
+test('a confirmed overrun skips the check but still reserves', async () => {
+  saveConfig({ budget: { daily: 1 } });
+  const release = await withSpendContext('generate', async () => reserveSpend(2), { overBudget: true });
+  assert.equal(checkBudget(0.1)[0].spent, 2);
+  release();
+  assert.deepEqual(checkBudget(0.1), []);
+});